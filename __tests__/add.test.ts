@@ -1,4 +1,5 @@
 import add from "../src/add";
+import { float, forAll, integer, tuple } from "../src/property";
 
 describe("add", () => {
   it("should return 15 when adding 10 and 5", () => {
@@ -18,4 +19,13 @@ describe("add", () => {
 
     expect(actual).toBe(100);
   });
+
+  it("should be commutative", () => {
+    forAll(tuple(float(), float()), ([x, y]) => add(x, y) === add(y, x));
+    forAll(tuple(integer(), integer()), ([x, y]) => add(x, y) === add(y, x));
+  });
+
+  it("should have 0 as its identity", () => {
+    forAll(float(), (x) => add(x, 0) === x && add(0, x) === x);
+  });
 });
@@ -0,0 +1,129 @@
+import {
+  add,
+  ArithmeticOverflowError,
+  checked,
+  createArithmetic,
+  decimal,
+  Decimal,
+  divide,
+  DivisionByZeroError,
+  multiply,
+  subtract,
+} from "../src/arithmetic";
+
+describe("arithmetic with numbers", () => {
+  it("should be variadic", () => {
+    expect(add(10, 5)).toBe(15);
+    expect(add(1, 2, 3, 4)).toBe(10);
+    expect(subtract(10, 1, 2)).toBe(7);
+    expect(multiply(2, 3, 4)).toBe(24);
+    expect(divide(100, 5, 2)).toBe(10);
+  });
+
+  it("should return unsafe results when unchecked", () => {
+    const actual = add(Number.MAX_SAFE_INTEGER, 2);
+
+    expect(actual).toBe(Number.MAX_SAFE_INTEGER + 1);
+  });
+
+  it("should throw on unsafe results when checked", () => {
+    expect(checked.add(Number.MAX_SAFE_INTEGER - 1, 1)).toBe(
+      Number.MAX_SAFE_INTEGER
+    );
+    expect(() => checked.add(Number.MAX_SAFE_INTEGER, 2)).toThrow(
+      ArithmeticOverflowError
+    );
+    expect(() => checked.multiply(2 ** 30, 2 ** 30)).toThrow(
+      "multiply: 1152921504606847000 is outside the safe integer range"
+    );
+    expect(() => checked.divide(1, 0)).toThrow(DivisionByZeroError);
+  });
+
+  it("should reject mixed operand types", () => {
+    const mixed = add as (...values: unknown[]) => unknown;
+
+    expect(() => mixed(1, 2n)).toThrow("add cannot mix operand types");
+  });
+});
+
+describe("arithmetic with bigints", () => {
+  it("should keep full precision", () => {
+    const max = BigInt(Number.MAX_SAFE_INTEGER);
+
+    expect(add(max, 2n)).toBe(9007199254740993n);
+    expect(multiply(max, max, 2n)).toBe(162259276829213327362780991324162n);
+    expect(subtract(1n, 2n, 3n)).toBe(-4n);
+  });
+
+  it("should truncate division and reject division by zero", () => {
+    expect(divide(-7n, 2n)).toBe(-3n);
+    expect(() => divide(1n, 0n)).toThrow(DivisionByZeroError);
+  });
+});
+
+describe("arithmetic with decimals", () => {
+  it("should add 0.1 and 0.2 exactly", () => {
+    const actual = add(decimal("0.1"), decimal("0.2"));
+
+    expect(actual.toString()).toBe("0.3");
+    expect(actual.equals(decimal("0.30"))).toBe(true);
+  });
+
+  it("should subtract and multiply exactly", () => {
+    expect(subtract(decimal("10"), decimal("0.01")).toString()).toBe("9.99");
+    expect(multiply(decimal("1.1"), decimal("1.1")).toString()).toBe("1.21");
+    expect(multiply(decimal("-0.5"), decimal("0.5")).toString()).toBe("-0.25");
+  });
+
+  it("should divide to the configured scale", () => {
+    const cents = createArithmetic({ scale: 2 });
+
+    expect(cents.divide(decimal("10"), decimal("3")).toString()).toBe("3.33");
+    expect(cents.divide(decimal("20"), decimal("3")).toString()).toBe("6.67");
+    expect(divide(decimal("1"), decimal("8")).toString()).toBe(
+      "0.12500000000000000000"
+    );
+    expect(() => divide(decimal("1"), decimal("0"))).toThrow(
+      DivisionByZeroError
+    );
+  });
+
+  it("should apply every rounding mode", () => {
+    const values = ["2.5", "-2.5", "1.5", "2.4", "-2.6"].map(decimal);
+    const roundAll = (mode: Parameters<Decimal["round"]>[1]) =>
+      values.map((value) => value.round(0, mode).toString());
+
+    expect(roundAll("up")).toStrictEqual(["3", "-3", "2", "3", "-3"]);
+    expect(roundAll("down")).toStrictEqual(["2", "-2", "1", "2", "-2"]);
+    expect(roundAll("ceiling")).toStrictEqual(["3", "-2", "2", "3", "-2"]);
+    expect(roundAll("floor")).toStrictEqual(["2", "-3", "1", "2", "-3"]);
+    expect(roundAll("half-up")).toStrictEqual(["3", "-3", "2", "2", "-3"]);
+    expect(roundAll("half-down")).toStrictEqual(["2", "-2", "1", "2", "-3"]);
+    expect(roundAll("half-even")).toStrictEqual(["2", "-2", "2", "2", "-3"]);
+  });
+
+  it("should use the configured rounding mode when dividing", () => {
+    const bankers = createArithmetic({ scale: 0, rounding: "half-even" });
+    const schoolbook = createArithmetic({ scale: 0, rounding: "half-up" });
+
+    expect(bankers.divide(decimal("5"), decimal("2")).toString()).toBe("2");
+    expect(schoolbook.divide(decimal("5"), decimal("2")).toString()).toBe("3");
+  });
+
+  it("should read and write decimal strings", () => {
+    expect(decimal("+001.2300").toString()).toBe("1.2300");
+    expect(decimal(".5").toString()).toBe("0.5");
+    expect(decimal("1.5e3").toString()).toBe("1500");
+    expect(decimal("12e-4").toString()).toBe("0.0012");
+    expect(decimal(0.1).toString()).toBe("0.1");
+    expect(decimal(42n).toString()).toBe("42");
+    expect(JSON.stringify({ total: decimal("9.90") })).toBe('{"total":"9.90"}');
+    expect(() => decimal("1.2.3")).toThrow(SyntaxError);
+    expect(() => decimal(NaN)).toThrow(RangeError);
+  });
+
+  it("should pad when rounding to a larger scale", () => {
+    expect(decimal("1.5").round(3).toString()).toBe("1.500");
+    expect(decimal("0.001").compare(decimal("0.0009"))).toBe(1);
+  });
+});
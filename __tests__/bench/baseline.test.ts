@@ -0,0 +1,92 @@
+import {
+  BaselineError,
+  compare,
+  formatDuration,
+  Measurement,
+  parseBaseline,
+  renderReport,
+  summarize,
+  toBaseline,
+} from "../../src/bench";
+
+const measurement = (name: string, samples: number[]): Measurement => ({
+  suite: "map",
+  name,
+  iterations: 1,
+  summary: summarize(samples),
+});
+
+const before = [
+  measurement("myMap", [100, 100, 100]),
+  measurement("Array.prototype.map", [50, 50, 50]),
+];
+
+describe("baselines", () => {
+  it("should survive a JSON round trip", () => {
+    const baseline = toBaseline(before);
+
+    expect(Object.keys(baseline.results)).toStrictEqual([
+      "map/myMap",
+      "map/Array.prototype.map",
+    ]);
+    expect(parseBaseline(JSON.stringify(baseline))).toStrictEqual(baseline);
+  });
+
+  it("should reject files that are not baselines", () => {
+    expect(() => parseBaseline("{")).toThrow(BaselineError);
+    expect(() => parseBaseline('{"version":2,"results":{}}')).toThrow(
+      "Expected a version 1 baseline but got version 2"
+    );
+    expect(() =>
+      parseBaseline('{"version":1,"results":{"map/myMap":{}}}')
+    ).toThrow('The baseline for "map/myMap" has no median');
+  });
+
+  it("should flag medians that moved beyond the threshold", () => {
+    const after = [
+      measurement("myMap", [100, 125, 130]),
+      measurement("Array.prototype.map", [40, 40, 60]),
+      measurement("flatMap", [10]),
+    ];
+
+    const actual = compare(after, toBaseline(before));
+
+    expect(actual.map(({ key, status }) => [key, status])).toStrictEqual([
+      ["map/myMap", "regressed"],
+      ["map/Array.prototype.map", "improved"],
+      ["map/flatMap", "new"],
+    ]);
+    expect(actual[0].change).toBeCloseTo(0.25);
+    expect(actual[1].change).toBeCloseTo(-0.2);
+    expect(actual[2].change).toBeUndefined();
+    expect(
+      compare(after, toBaseline(before), { threshold: 0.3 }).map(
+        ({ status }) => status
+      )
+    ).toStrictEqual(["unchanged", "unchanged", "new"]);
+  });
+});
+
+describe("reports", () => {
+  it("should pick a readable unit", () => {
+    expect(formatDuration(12.345)).toBe("12.3 ns");
+    expect(formatDuration(4567)).toBe("4.57 µs");
+    expect(formatDuration(1_234_567)).toBe("1.23 ms");
+  });
+
+  it("should show the change from the baseline", () => {
+    const after = [measurement("myMap", [120, 120, 120])];
+
+    const actual = renderReport(
+      after,
+      compare(after, toBaseline(before)),
+      "markdown"
+    );
+
+    expect(actual.split("\n")).toStrictEqual([
+      "| suite | benchmark |   mean | 95% CI | median |    p95 |      vs baseline |",
+      "|:------|:----------|-------:|-------:|-------:|-------:|-----------------:|",
+      "| map   | myMap     | 120 ns |  ±0.0% | 120 ns | 120 ns | +20.0% regressed |",
+    ]);
+  });
+});
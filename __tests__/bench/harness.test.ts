@@ -0,0 +1,123 @@
+import { measure, quantile, runSuite, summarize } from "../../src/bench";
+
+/** A clock that only moves when the benchmark says it took time. */
+function fakeClock() {
+  let time = 0;
+  return {
+    now: () => time,
+    spend: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("summarize", () => {
+  it("should describe the samples", () => {
+    const actual = summarize([5, 1, 4, 2, 3]);
+
+    expect(actual).toMatchObject({
+      samples: 5,
+      mean: 3,
+      median: 3,
+      min: 1,
+      max: 5,
+    });
+    expect(actual.p95).toBeCloseTo(4.8);
+    expect(actual.standardDeviation).toBeCloseTo(Math.sqrt(2.5));
+    // t(4) = 2.776 for a 95% interval.
+    expect(actual.marginOfError).toBeCloseTo((2.776 * Math.sqrt(2.5)) / 2.236);
+  });
+
+  it("should interpolate between samples", () => {
+    expect(quantile([10, 20], 0.5)).toBe(15);
+    expect(quantile([10, 20, 30, 40], 0.95)).toBeCloseTo(38.5);
+    expect(quantile([7], 0.95)).toBe(7);
+  });
+
+  it("should have no spread for a single sample", () => {
+    expect(summarize([4])).toMatchObject({
+      standardDeviation: 0,
+      marginOfError: 0,
+    });
+    expect(() => summarize([])).toThrow(RangeError);
+  });
+});
+
+describe("measure", () => {
+  it("should warm up, then double the iterations to fill a sample", () => {
+    const clock = fakeClock();
+    let calls = 0;
+    const fn = () => {
+      calls++;
+      clock.spend(0.002);
+    };
+
+    const actual = measure(fn, {
+      warmupMs: 1,
+      sampleMs: 1,
+      samples: 5,
+      now: clock.now,
+    });
+
+    // 512 iterations of 2 µs are the first batch to take 1 ms.
+    expect(actual.iterations).toBe(512);
+    expect(actual.summary.samples).toBe(5);
+    expect(actual.summary.median).toBeCloseTo(2000, 6);
+    const warmup = 500;
+    const calibration = 1 + 2 + 4 + 8 + 16 + 32 + 64 + 128 + 256 + 512;
+    expect(calls).toBe(warmup + calibration + 5 * 512);
+  });
+
+  it("should report slow samples in p95", () => {
+    const clock = fakeClock();
+    let calls = 0;
+    // Warmup and calibration take 8 calls and settle on batches of 4, so
+    // the last 2 of the 20 samples are slow.
+    const fn = () => clock.spend(++calls > 80 ? 10 : 1);
+
+    const actual = measure(fn, {
+      warmupMs: 0,
+      sampleMs: 4,
+      samples: 20,
+      now: clock.now,
+    });
+
+    expect(actual.iterations).toBe(4);
+    expect(actual.summary.median).toBe(1e6);
+    expect(actual.summary.p95).toBe(1e7);
+  });
+
+  it("should reject sample counts below one", () => {
+    expect(() => measure(() => 1, { samples: 0 })).toThrow(
+      new RangeError("samples must be a positive integer, got 0")
+    );
+  });
+});
+
+describe("runSuite", () => {
+  it("should measure every benchmark of the suite", () => {
+    const clock = fakeClock();
+    const suite = {
+      name: "sleep",
+      description: "Pretends to sleep",
+      benchmarks: [
+        { name: "short", fn: () => clock.spend(1) },
+        { name: "long", fn: () => clock.spend(3) },
+      ],
+    };
+
+    const actual = runSuite(suite, {
+      warmupMs: 0,
+      sampleMs: 1,
+      samples: 3,
+      now: clock.now,
+    });
+
+    expect(
+      actual.map(({ suite, name, summary }) => [suite, name, summary.mean])
+    ).toStrictEqual([
+      ["sleep", "short", 1e6],
+      ["sleep", "long", 3e6],
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  canonicalize,
+  CircularReferenceError,
+  fromOrderedEntries,
+  OrderedEntry,
+  sortObjectKeys,
+} from "../src/canonical-json";
+import { forAll, json, record } from "../src/property";
+
+/** The same object with its keys inserted in reverse, at every depth. */
+function reverseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reverseKeys);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .reverse()
+      .map(([key, nested]) => [key, reverseKeys(nested)])
+  );
+}
+
+describe("canonicalize", () => {
+  it("should sort keys at every depth and keep array order", () => {
+    const actual = canonicalize({ b: [3, { d: 1, c: 2 }], a: { z: 1, y: 2 } });
+
+    expect(actual).toBe('{"a":{"y":2,"z":1},"b":[3,{"c":2,"d":1}]}');
+  });
+
+  it("should produce the same string regardless of insertion order", () => {
+    const actual = canonicalize({ x: 1, y: { b: true, a: null } });
+    const expected = canonicalize({ y: { a: null, b: true }, x: 1 });
+
+    expect(actual).toBe(expected);
+  });
+
+  it("should order keys by UTF-16 code units", () => {
+    const actual = canonicalize({ "€": 1, "\r": 2, "😀": 3, a: 4 });
+
+    expect(actual).toBe('{"\\r":2,"a":4,"€":1,"😀":3}');
+  });
+
+  it("should format numbers as ECMAScript does", () => {
+    const actual = canonicalize([
+      -0,
+      1e21,
+      1e-7,
+      0.000001,
+      333333333.3333333,
+      4.5,
+      2 ** 53,
+    ]);
+
+    expect(actual).toBe(
+      "[0,1e+21,1e-7,0.000001,333333333.3333333,4.5,9007199254740992]"
+    );
+  });
+
+  it("should reject non-finite numbers and bigints", () => {
+    expect(() => canonicalize({ a: NaN })).toThrow(TypeError);
+    expect(() => canonicalize([Infinity])).toThrow(TypeError);
+    expect(() => canonicalize({ a: BigInt(1) })).toThrow(TypeError);
+  });
+
+  it("should drop undefined members and write undefined array items as null", () => {
+    const actual = canonicalize({ a: undefined, b: [undefined], c: () => 1 });
+
+    expect(actual).toBe('{"b":[null]}');
+  });
+
+  it("should use toJSON when present", () => {
+    const actual = canonicalize({ when: new Date(Date.UTC(2020, 0, 1)) });
+
+    expect(actual).toBe('{"when":"2020-01-01T00:00:00.000Z"}');
+  });
+
+  it("should report cycles with their path", () => {
+    const object: Record<string, any> = { a: { b: [] } };
+    object.a.b.push(object);
+
+    expect(() => canonicalize(object)).toThrow(CircularReferenceError);
+    expect(() => canonicalize(object)).toThrow(
+      "Circular reference detected at $.a.b[0]"
+    );
+  });
+
+  it("should allow the same object to appear twice outside a cycle", () => {
+    const shared = { x: 1 };
+
+    const actual = canonicalize({ a: shared, b: shared });
+
+    expect(actual).toBe('{"a":{"x":1},"b":{"x":1}}');
+  });
+});
+
+describe("sortObjectKeys", () => {
+  it("should return ordered entries for nested objects", () => {
+    const actual = sortObjectKeys({ b: { d: 1, c: [{ f: 1, e: 2 }] }, a: 0 });
+
+    expect(actual).toStrictEqual([
+      { k: "a", v: 0 },
+      {
+        k: "b",
+        v: [
+          {
+            k: "c",
+            v: [
+              [
+                { k: "e", v: 2 },
+                { k: "f", v: 1 },
+              ],
+            ],
+          },
+          { k: "d", v: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("should report cycles", () => {
+    const object: Record<string, any> = {};
+    object.self = object;
+
+    expect(() => sortObjectKeys(object)).toThrow(CircularReferenceError);
+  });
+
+  it("should report the path of a cycle", () => {
+    const object: Record<string, any> = { a: { "b-c": [1] } };
+    object.a["b-c"].push({ back: object.a });
+
+    expect(() => sortObjectKeys(object)).toThrow(
+      'Circular reference detected at $.a["b-c"][1].back'
+    );
+  });
+
+  it("should sort objects nested 10,000 levels deep", () => {
+    let deep: Record<string, any> = { leaf: true };
+    for (let i = 0; i < 10_000; i++) {
+      deep = { z: i, child: [deep] };
+    }
+
+    let sorted: any = sortObjectKeys(deep);
+    let depth = 0;
+    while (sorted[0].k === "child") {
+      expect(sorted.map(({ k }: OrderedEntry) => k)).toStrictEqual([
+        "child",
+        "z",
+      ]);
+      sorted = sorted[0].v[0];
+      depth++;
+    }
+
+    expect(depth).toBe(10_000);
+    expect(sorted).toStrictEqual([{ k: "leaf", v: true }]);
+  });
+
+  it("should canonicalize and decode objects nested 10,000 levels deep", () => {
+    let deep: Record<string, any> = { leaf: true };
+    for (let i = 0; i < 10_000; i++) {
+      deep = { z: i, child: [deep] };
+    }
+
+    const text = canonicalize(deep);
+
+    expect(text.startsWith('{"child":[{"child":[')).toBe(true);
+    expect(text).toContain('{"child":[{"leaf":true}],"z":0}');
+    expect(text.endsWith('"z":9998}],"z":9999}')).toBe(true);
+    expect(canonicalize(fromOrderedEntries(sortObjectKeys(deep)))).toBe(text);
+  });
+
+  it("should be idempotent", () => {
+    forAll(record(json()), (object) => {
+      const once = sortObjectKeys(object);
+      const twice = sortObjectKeys(fromOrderedEntries(once));
+
+      expect(twice).toStrictEqual(once);
+    });
+  });
+
+  it("should not depend on insertion order", () => {
+    forAll(record(json()), (object) => {
+      const reversed = reverseKeys(object) as Record<string, unknown>;
+
+      expect(sortObjectKeys(reversed)).toStrictEqual(sortObjectKeys(object));
+    });
+  });
+});
+
+describe("fromOrderedEntries", () => {
+  it("should round-trip objects, arrays and primitives", () => {
+    const object = {
+      z: [1, "two", null, { y: false, x: [{ k: "not", v: "an entry" }] }],
+      a: { nested: { deeper: "value" } },
+    };
+
+    const actual = fromOrderedEntries(sortObjectKeys(object));
+
+    expect(actual).toStrictEqual(object);
+  });
+
+  it("should keep a __proto__ key as a member", () => {
+    const object = JSON.parse('{"__proto__":{"polluted":true},"a":1}');
+
+    const actual = fromOrderedEntries(sortObjectKeys(object));
+
+    expect(Object.getPrototypeOf(actual)).toBe(Object.prototype);
+    expect(Object.keys(actual)).toEqual(["__proto__", "a"]);
+    expect(actual.polluted).toBeUndefined();
+    expect(canonicalize(actual)).toBe('{"__proto__":{"polluted":true},"a":1}');
+  });
+
+  it("should decode an empty list as an empty array", () => {
+    expect(fromOrderedEntries([])).toStrictEqual([]);
+  });
+});
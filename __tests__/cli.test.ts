@@ -0,0 +1,335 @@
+import { IO, parseRules, run } from "../src/cli";
+
+function createIO(stdin = "", files: Record<string, string> = {}) {
+  const output = { stdout: "", stderr: "" };
+  const io: IO = {
+    stdout: (text) => {
+      output.stdout += text;
+    },
+    stderr: (text) => {
+      output.stderr += text;
+    },
+    readStdin: () => Promise.resolve(stdin),
+    readFile: (path) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    writeFile: (path, text) => {
+      files[path] = text;
+    },
+  };
+  return { io, output };
+}
+
+describe("cli", () => {
+  it("should print general help with --help", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["--help"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toContain("Usage: ts-practice <command>");
+    expect(output.stdout).toContain("sort-keys [file]");
+  });
+
+  it("should print help on stderr and exit with 2 without a command", async () => {
+    const { io, output } = createIO();
+
+    const code = await run([], io);
+
+    expect(code).toBe(2);
+    expect(output.stdout).toBe("");
+    expect(output.stderr).toContain("Commands:");
+  });
+
+  it("should reject unknown commands", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["yo"], io);
+
+    expect(code).toBe(2);
+    expect(output.stderr).toContain('Unknown command "yo"');
+  });
+
+  it("should not take inherited names for commands or presets", async () => {
+    const { io, output } = createIO();
+
+    expect(await run(["toString"], io)).toBe(2);
+    expect(
+      await run(["fizzbuzz", "--to", "3", "--rules", "constructor"], io)
+    ).toBe(2);
+    expect(output.stderr).toContain('Unknown command "toString"');
+    expect(output.stderr).toContain('Invalid rule "constructor"');
+  });
+
+  it("should print help for a single command", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["add", "--help"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe(
+      "Usage: ts-practice add <a> <b>\n\nAdd two numbers\n"
+    );
+  });
+
+  it("should say hello", async () => {
+    const { io, output } = createIO();
+
+    await run(["hello"], io);
+    await run(["hello", "Bob"], io);
+
+    expect(output.stdout.split("\n")[0]).toMatch(/^Hello world!/);
+    expect(output.stdout.split("\n")[1]).toMatch(/^Hello Bob!/);
+  });
+
+  it("should add two numbers", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["add", "10", "5"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe("15\n");
+  });
+
+  it("should exit with 2 when add gets a non-number", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["add", "10", "five"], io);
+
+    expect(code).toBe(2);
+    expect(output.stdout).toBe("");
+    expect(output.stderr).toContain('b must be a number, got "five"');
+  });
+
+  it("should play fizzbuzz", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["fizzbuzz", "--to", "5"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe("1\n2\nFizz\n4\nBuzz\n");
+  });
+
+  it("should play fizzbuzz with custom rules", async () => {
+    const { io, output } = createIO();
+
+    await run(["fizzbuzz", "--from=20", "--to=21", "--rules=fizzbuzzbazz"], io);
+    await run(["fizzbuzz", "--to", "4", "--rules", "2:Even"], io);
+
+    expect(output.stdout).toBe("Buzz\nFizzBazz\n1\nEven\n3\nEven\n");
+  });
+
+  it("should play fizzbuzz as a table", async () => {
+    const { io, output } = createIO();
+
+    await run(["fizzbuzz", "--from", "9", "--to", "10", "--table", "box"], io);
+    await run(["fizzbuzz", "--to", "3", "--table=markdown"], io);
+
+    expect(output.stdout).toBe(
+      [
+        "┌────┬──────┐",
+        "│  n │ says │",
+        "├────┼──────┤",
+        "│  9 │ Fizz │",
+        "│ 10 │ Buzz │",
+        "└────┴──────┘",
+        "|   n | says |",
+        "|----:|:-----|",
+        "|   1 | 1    |",
+        "|   2 | 2    |",
+        "|   3 | Fizz |",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should reject unknown table styles", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["fizzbuzz", "--to", "3", "--table", "csv"], io);
+
+    expect(code).toBe(2);
+    expect(output.stderr).toContain(
+      '--table must be one of box, markdown, got "csv"'
+    );
+  });
+
+  it("should require --to for fizzbuzz", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["fizzbuzz"], io);
+
+    expect(code).toBe(2);
+    expect(output.stderr).toContain("Missing --to");
+  });
+
+  it("should sort keys of JSON from stdin", async () => {
+    const { io, output } = createIO(
+      '{"z":1,"a":{"y":[{"c":1,"b":2}],"x":null}}'
+    );
+
+    const code = await run(["sort-keys"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe('{"a":{"x":null,"y":[{"b":2,"c":1}]},"z":1}\n');
+  });
+
+  it("should sort keys of JSON from a file", async () => {
+    const { io, output } = createIO("", { "config.json": '{"b":1,"a":2}' });
+
+    await run(["sort-keys", "config.json"], io);
+
+    expect(output.stdout).toBe('{"a":2,"b":1}\n');
+  });
+
+  it("should sort keys of JSON nested 10,000 levels deep", async () => {
+    const depth = 10_000;
+    const { io, output } = createIO(
+      `${'{"b":1,"a":'.repeat(depth)}null${"}".repeat(depth)}`
+    );
+
+    const code = await run(["sort-keys"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe(
+      `${'{"a":'.repeat(depth)}null${',"b":1}'.repeat(depth)}\n`
+    );
+  });
+
+  it("should exit with 1 on invalid JSON or a missing file", async () => {
+    const { io, output } = createIO("{nope");
+
+    expect(await run(["sort-keys"], io)).toBe(1);
+    expect(await run(["sort-keys", "missing.json"], io)).toBe(1);
+    expect(output.stdout).toBe("");
+    expect(output.stderr).toContain("Invalid JSON");
+    expect(output.stderr).toContain("ENOENT");
+  });
+
+  it("should report unsorted members with --check", async () => {
+    const files = {
+      "a.ts": "const point = {\n  y: 2,\n  x: 1,\n};\n",
+      "b.ts": "const sorted = { a: 1 };\n",
+    };
+    const { io, output } = createIO("", files);
+
+    const code = await run(["sort-members", "--check", "a.ts", "b.ts"], io);
+
+    expect(code).toBe(1);
+    expect(output.stdout).toBe(
+      'a.ts:1: object literal keys are not sorted: "x" should come before "y"\n'
+    );
+    expect(output.stderr).toBe(
+      "1 unsorted list; run with --write to sort them\n"
+    );
+  });
+
+  it("should sort members in place with --write", async () => {
+    const files = {
+      "a.ts":
+        "// @sorted\nconst point = { y: 2, x: 1 };\nconst b = { d: 1, c: 2 };\n",
+    };
+    const { io, output } = createIO("", files);
+
+    const code = await run(["sort-members", "--write", "--marked", "a.ts"], io);
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe("Sorted a.ts\n");
+    expect(files["a.ts"]).toBe(
+      "// @sorted\nconst point = { x: 1, y: 2 };\nconst b = { d: 1, c: 2 };\n"
+    );
+    expect(await run(["sort-members", "--check", "--marked", "a.ts"], io)).toBe(
+      0
+    );
+  });
+
+  it("should need exactly one mode and a file for sort-members", async () => {
+    const { io, output } = createIO();
+
+    expect(await run(["sort-members", "a.ts"], io)).toBe(2);
+    expect(await run(["sort-members", "--check", "--write", "a.ts"], io)).toBe(
+      2
+    );
+    expect(await run(["sort-members", "--check"], io)).toBe(2);
+    expect(output.stderr).toContain("Pass exactly one of --check and --write");
+    expect(output.stderr).toContain("Missing file");
+  });
+
+  it("should write a study guide from lessons", async () => {
+    const files: Record<string, string> = {
+      "lessons/a.test.ts":
+        '/** References:\n * - https://example.com\n */\ndescribe("A", () => {\n  it("works", () => {\n    run();\n  });\n});\n',
+    };
+    const { io, output } = createIO("", files);
+
+    const code = await run(
+      ["study-guide", "--out", "guide", "--format=html", "lessons/a.test.ts"],
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(output.stdout).toBe("Wrote 2 pages to guide\n");
+    expect(files["guide/index.html"]).toContain("<h1>Study guide</h1>");
+    expect(files["guide/a.html"]).toContain("<pre><code");
+    expect(await run(["study-guide", "--check", "lessons/a.test.ts"], io)).toBe(
+      0
+    );
+  });
+
+  it("should report incomplete lessons with --check", async () => {
+    const files = {
+      "a.test.ts": 'describe("A", () => {\n  it("works", () => {});\n});\n',
+    };
+    const { io, output } = createIO("", files);
+
+    const code = await run(["study-guide", "--check", "a.test.ts"], io);
+
+    expect(code).toBe(1);
+    expect(output.stdout).toBe(
+      'a.test.ts:1: Missing a References comment\na.test.ts:2: Section "works" is empty\n'
+    );
+    expect(output.stderr).toBe("2 problems in 1 lesson\n");
+  });
+
+  it("should need one mode, a known format and a file for study-guide", async () => {
+    const { io, output } = createIO();
+
+    expect(await run(["study-guide", "a.ts"], io)).toBe(2);
+    expect(
+      await run(["study-guide", "--check", "--out", "g", "a.ts"], io)
+    ).toBe(2);
+    expect(await run(["study-guide", "--check"], io)).toBe(2);
+    expect(
+      await run(["study-guide", "--out", "g", "--format", "pdf", "a.ts"], io)
+    ).toBe(2);
+    expect(output.stderr).toContain("Pass exactly one of --check and --out");
+    expect(output.stderr).toContain("Missing file");
+    expect(output.stderr).toContain(
+      '--format must be one of markdown, html, got "pdf"'
+    );
+  });
+});
+
+describe("parseRules", () => {
+  it("should reject malformed rules", () => {
+    expect(() => parseRules("3:Fizz,0:Zero")).toThrow('Invalid rule "0:Zero"');
+    expect(() => parseRules("Fizz")).toThrow('Invalid rule "Fizz"');
+    expect(() => parseRules("constructor")).toThrow(
+      'Invalid rule "constructor"'
+    );
+  });
+
+  it("should reject unknown benchmark suites", async () => {
+    const { io, output } = createIO();
+
+    const code = await run(["bench", "--suite", "reduce"], io);
+
+    expect(code).toBe(2);
+    expect(output.stderr).toContain(
+      'Unknown suite "reduce": expected one of map, sort-object-keys'
+    );
+  });
+});
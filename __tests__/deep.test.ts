@@ -0,0 +1,313 @@
+import { resolve } from "path";
+import { deepClone, deepFreeze, deepMerge } from "../src/deep";
+import { checkSources } from "../src/type-check";
+
+// The type tests compile a snippet each.
+jest.setTimeout(60_000);
+
+const typeErrors = (...lines: string[]) =>
+  checkSources({
+    [resolve(__dirname, "snippet.ts")]: [
+      'import { deepFreeze, deepMerge } from "../src/deep";',
+      'import { expectType } from "../src/type-check";',
+      ...lines,
+    ].join("\n"),
+  }).map(({ line, message }) => ({ line, message }));
+
+describe("deepClone", () => {
+  it("should copy nested objects and arrays", () => {
+    const original = { a: { b: [1, { c: "c" }] }, d: null, e: undefined };
+    const copy = deepClone(original);
+
+    expect(copy).toStrictEqual(original);
+    expect(copy.a).not.toBe(original.a);
+    expect(copy.a.b[1]).not.toBe(original.a.b[1]);
+  });
+
+  it("should copy dates, regular expressions, maps and sets", () => {
+    const pattern = /a+/g;
+    pattern.lastIndex = 2;
+    const original = {
+      date: new Date(0),
+      pattern,
+      map: new Map([[{ id: 1 }, new Date(1)]]),
+      set: new Set([[1, 2]]),
+    };
+    const copy = deepClone(original);
+
+    expect(copy).toStrictEqual(original);
+    expect(copy.date).not.toBe(original.date);
+    expect(copy.pattern).not.toBe(original.pattern);
+    expect(copy.pattern.lastIndex).toBe(2);
+    const [[key, value]] = copy.map;
+    expect(key).not.toBe([...original.map.keys()][0]);
+    expect(value).toEqual(new Date(1));
+    expect([...copy.set][0]).not.toBe([...original.set][0]);
+  });
+
+  it("should copy typed arrays without the rest of their buffer", () => {
+    const buffer = new Uint8Array([1, 2, 3, 4]).buffer;
+    const view = new Uint8Array(buffer, 1, 2);
+    const copy = deepClone({ view, data: new DataView(buffer) });
+
+    expect(copy.view).toBeInstanceOf(Uint8Array);
+    expect([...copy.view]).toEqual([2, 3]);
+    expect(copy.view.buffer.byteLength).toBe(2);
+    copy.view[0] = 9;
+    expect(view[0]).toBe(2);
+    expect(copy.data.getUint8(3)).toBe(4);
+  });
+
+  it("should keep cycles and shared references", () => {
+    type Node = { name: string; self?: Node; peers: Node[] };
+    const shared = { name: "shared", peers: [] };
+    const original: Node = { name: "root", peers: [shared, shared] };
+    original.self = original;
+    const copy = deepClone(original);
+
+    expect(copy.self).toBe(copy);
+    expect(copy.peers[0]).toBe(copy.peers[1]);
+    expect(copy.peers[0]).not.toBe(shared);
+  });
+
+  it("should share copies of dates, buffers and typed arrays", () => {
+    const date = new Date(0);
+    const bytes = new Uint8Array([1, 2]);
+    const original = { created: date, updated: date, bytes, again: bytes };
+
+    const copy = deepClone(original);
+
+    expect(copy.updated).toBe(copy.created);
+    expect(copy.created).not.toBe(date);
+    expect(copy.again).toBe(copy.bytes);
+    expect(copy.bytes).not.toBe(bytes);
+  });
+
+  it("should keep the prototype of class instances", () => {
+    class Point {
+      constructor(readonly x: number, readonly y: number) {}
+      length() {
+        return Math.hypot(this.x, this.y);
+      }
+    }
+    const copy = deepClone(new Point(3, 4));
+
+    expect(copy).toBeInstanceOf(Point);
+    expect(copy.length()).toBe(5);
+  });
+
+  it("should copy a __proto__ key as a property", () => {
+    const original = JSON.parse('{"__proto__": {"polluted": true}}');
+    const copy = deepClone(original);
+
+    expect(Object.keys(copy)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(copy)).toBe(Object.prototype);
+    expect(copy.polluted).toBeUndefined();
+  });
+});
+
+describe("deepFreeze", () => {
+  it("should freeze every nested object and return its argument", () => {
+    const value = { a: { b: [{ c: 1 }] }, map: new Map([["k", { v: 1 }]]) };
+    const frozen = deepFreeze(value);
+
+    expect(frozen).toBe(value);
+    expect(Object.isFrozen(value.a)).toBe(true);
+    expect(Object.isFrozen(value.a.b)).toBe(true);
+    expect(Object.isFrozen(value.a.b[0])).toBe(true);
+    expect(Object.isFrozen(value.map.get("k"))).toBe(true);
+    expect(() => {
+      value.a.b[0].c = 2;
+    }).toThrow(TypeError);
+  });
+
+  it("should handle cycles and leave typed arrays and functions alone", () => {
+    type Node = { self?: Node; bytes: Uint8Array; f: () => void };
+    const value: Node = { bytes: new Uint8Array([1]), f: () => undefined };
+    value.self = value;
+    deepFreeze(value);
+
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.bytes)).toBe(false);
+    expect(Object.isFrozen(value.f)).toBe(false);
+  });
+
+  it("should make every level readonly at compile time", () => {
+    const errors = typeErrors(
+      "const config = deepFreeze({ a: { b: [1] }, m: new Map([['k', { v: 1 }]]) });",
+      "config.a.b.push(2);",
+      "config.a = { b: [] };",
+      "config.m.get('k')!.v = 2;",
+      "config.m.set('k', { v: 2 });",
+      "expectType<readonly number[]>(config.a.b);",
+      "expectType<Date>(deepFreeze({ d: new Date() }).d);"
+    );
+
+    expect(errors.map(({ line }) => line)).toEqual([4, 5, 6, 7]);
+  });
+});
+
+describe("deepMerge", () => {
+  const defaults = {
+    server: { host: "localhost", port: 80 },
+    tags: ["base"],
+    plugins: [
+      { name: "gzip", enabled: true, level: 6 },
+      { name: "cache", enabled: true, level: 1 },
+    ],
+  };
+
+  it("should merge objects key by key, later layers winning", () => {
+    const env = { server: { port: 8080 } };
+    const user = { server: { host: "example.com" }, debug: true };
+    const config = deepMerge(deepMerge(defaults, env), user);
+
+    expect(config).toEqual({
+      server: { host: "example.com", port: 8080 },
+      tags: ["base"],
+      plugins: defaults.plugins,
+      debug: true,
+    });
+  });
+
+  it("should share nothing with its inputs", () => {
+    const user = { server: { port: 1 }, extra: { list: [1] } };
+    const config = deepMerge(defaults, user);
+    config.tags.push("changed");
+    config.extra.list.push(2);
+
+    expect(config.plugins[0]).not.toBe(defaults.plugins[0]);
+    expect(defaults.tags).toEqual(["base"]);
+    expect(user.extra.list).toEqual([1]);
+  });
+
+  it("should replace, concatenate or merge arrays by key", () => {
+    const user = {
+      tags: ["user"],
+      plugins: [
+        { name: "cache", enabled: false },
+        { name: "lint", enabled: true },
+      ],
+    };
+
+    expect(deepMerge(defaults, user).tags).toEqual(["user"]);
+    expect(deepMerge(defaults, user, { arrays: "concat" }).tags).toEqual([
+      "base",
+      "user",
+    ]);
+    expect(
+      deepMerge(defaults, user, {
+        paths: { plugins: { arrays: { mergeBy: "name" } } },
+      }).plugins
+    ).toEqual([
+      { name: "gzip", enabled: true, level: 6 },
+      { name: "cache", enabled: false, level: 1 },
+      { name: "lint", enabled: true },
+    ]);
+  });
+
+  it("should only merge items that both have their own mergeBy key", () => {
+    const base = { items: [{ name: "a" }, { id: 1, name: "b" }] };
+
+    expect(
+      deepMerge(
+        base,
+        { items: [{ id: undefined, name: "c" }] },
+        {
+          arrays: { mergeBy: "id" },
+        }
+      ).items
+    ).toEqual([{ name: "a" }, { id: 1, name: "b" }, { name: "c" }]);
+    expect(
+      deepMerge(
+        base,
+        { items: [{ name: "c" }, { name: "d" }] },
+        {
+          arrays: { mergeBy: "toString" },
+        }
+      ).items
+    ).toEqual([
+      { name: "a" },
+      { id: 1, name: "b" },
+      { name: "c" },
+      { name: "d" },
+    ]);
+  });
+
+  it("should apply a path's strategy over the default one", () => {
+    const config = deepMerge(
+      { a: [1], b: { c: [1] } },
+      { a: [2], b: { c: [2] } },
+      { arrays: "concat", paths: { "b.c": { arrays: "replace" } } }
+    );
+
+    expect(config).toEqual({ a: [1, 2], b: { c: [2] } });
+  });
+
+  it("should skip or delete keys set to undefined", () => {
+    const base = { a: 1, b: { c: 2, d: 3 } };
+    const override = { a: undefined, b: { d: undefined } };
+
+    expect(deepMerge(base, override)).toStrictEqual(base);
+    expect(deepMerge(base, override, { undefined: "delete" })).toStrictEqual({
+      b: { c: 2 },
+    });
+    expect(
+      deepMerge(base, override, { paths: { "b.d": { undefined: "delete" } } })
+    ).toStrictEqual({ a: 1, b: { c: 2 } });
+  });
+
+  it("should replace values that are not plain objects", () => {
+    const date = new Date(1);
+    const config = deepMerge(
+      { when: new Date(0), limits: { max: 1 }, list: [1] },
+      { when: date, limits: null, list: { 0: 2 } }
+    );
+
+    expect(config).toEqual({ when: date, limits: null, list: { 0: 2 } });
+    expect(config.when).not.toBe(date);
+  });
+
+  it("should not let a __proto__ key reach the prototype", () => {
+    const config = deepMerge(
+      {},
+      JSON.parse('{"__proto__": {"polluted": true}}')
+    );
+
+    expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("should compute the merged type", () => {
+    expect(
+      typeErrors(
+        "const config = deepMerge(",
+        "  { server: { host: 'localhost', port: 80 }, tags: ['a'], debug: false },",
+        "  { server: { port: '8080' }, tags: [1], name: 'app' } as {",
+        "    server: { port: string }; tags: number[]; name?: string;",
+        "  }",
+        ");",
+        "expectType<string>(config.server.host);",
+        "expectType<string>(config.server.port);",
+        "expectType<(string | number)[]>(config.tags);",
+        "expectType<boolean>(config.debug);",
+        "expectType<string | undefined>(config.name);",
+        "const kept = deepMerge({ a: 1 }, { a: 'x' } as { a?: string });",
+        "expectType<string | number>(kept.a);"
+      )
+    ).toEqual([]);
+  });
+
+  it("should only accept strategies for paths of the result", () => {
+    const errors = typeErrors(
+      "deepMerge({ a: { b: [1] } }, { c: 1 }, {",
+      "  paths: { 'a.b': { arrays: 'concat' }, c: { undefined: 'delete' } },",
+      "});",
+      "deepMerge({ a: { b: [1] } }, { c: 1 }, {",
+      "  paths: { 'a.x': { arrays: 'concat' } },",
+      "});"
+    );
+
+    expect(errors.map(({ line }) => line)).toEqual([7]);
+  });
+});
@@ -0,0 +1,219 @@
+import { resolve } from "path";
+import { EmitError, TypedEmitter, WaitTimeoutError } from "../src/emitter";
+import { checkSources } from "../src/type-check";
+
+// The type tests compile a snippet each.
+jest.setTimeout(60_000);
+
+type WindowEvents = {
+  resize: [width: number, height: number];
+  title: [title: string];
+  close: [];
+};
+
+const typeErrors = (...lines: string[]) =>
+  checkSources({
+    [resolve(__dirname, "snippet.ts")]: [
+      'import { TypedEmitter } from "../src/emitter";',
+      'import { expectType } from "../src/type-check";',
+      "type WindowEvents = {",
+      "  resize: [width: number, height: number];",
+      "  title: [title: string];",
+      "  close: [];",
+      "};",
+      "const events = new TypedEmitter<WindowEvents>();",
+      ...lines,
+    ].join("\n"),
+  }).map(({ line, message }) => ({ line, message }));
+
+describe("TypedEmitter", () => {
+  it("should call the event's listeners with its arguments", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const sizes: string[] = [];
+    events.on("resize", (width, height) => sizes.push(`${width}x${height}`));
+    events.on("resize", (width) => sizes.push(`${width}`));
+
+    expect(events.emit("resize", 800, 600)).toBe(true);
+    expect(events.emit("close")).toBe(false);
+    expect(sizes).toEqual(["800x600", "800"]);
+  });
+
+  it("should call a once listener only the first time", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const titles: string[] = [];
+    events.once("title", (title) => titles.push(title));
+
+    events.emit("title", "first");
+    events.emit("title", "second");
+
+    expect(titles).toEqual(["first"]);
+    expect(events.listenerCount("title")).toBe(0);
+  });
+
+  it("should remove listeners with off or the function on returns", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const calls: string[] = [];
+    const onClose = () => calls.push("off");
+    events.on("close", onClose);
+    const unsubscribe = events.on("close", () => calls.push("unsubscribe"));
+
+    events.off("close", onClose);
+    unsubscribe();
+    unsubscribe();
+
+    expect(events.emit("close")).toBe(false);
+    expect(calls).toEqual([]);
+  });
+
+  it("should only apply changes made during an emit to the next one", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const calls: string[] = [];
+    events.on("close", () => {
+      calls.push("first");
+      events.on("close", () => calls.push("added"));
+      events.off("close", second);
+    });
+    const second = () => calls.push("second");
+    events.on("close", second);
+
+    events.emit("close");
+    events.emit("close");
+
+    expect(calls).toEqual(["first", "second", "first", "added"]);
+  });
+
+  it("should call wildcard listeners with the event name first", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const seen: unknown[][] = [];
+    const stop = events.onAny((...args) => seen.push(args));
+
+    events.emit("resize", 1, 2);
+    events.emit("close");
+    stop();
+    events.emit("title", "ignored");
+
+    expect(seen).toEqual([["resize", 1, 2], ["close"]]);
+  });
+
+  it("should remove every listener, or those of one event", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    events.on("close", () => undefined);
+    events.on("title", () => undefined);
+    events.onAny(() => undefined);
+
+    events.removeAllListeners("close");
+    expect(events.listenerCount("close")).toBe(0);
+    expect(events.listenerCount("title")).toBe(1);
+
+    events.removeAllListeners();
+    expect(events.emit("title", "gone")).toBe(false);
+  });
+
+  it("should warn once per event when listeners pile up", () => {
+    const warn = jest.fn();
+    const events = new TypedEmitter<WindowEvents>({ maxListeners: 2, warn });
+    for (let i = 0; i < 4; i++) {
+      events.on("close", () => undefined);
+    }
+    events.on("title", () => undefined);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(
+      /^Possible listener leak: 3 listeners for "close", more than the 2 allowed/
+    );
+  });
+
+  it("should keep calling listeners after one throws, then throw", () => {
+    const events = new TypedEmitter<WindowEvents>();
+    const calls: string[] = [];
+    events.on("close", () => {
+      throw new Error("first failed");
+    });
+    events.on("close", () => calls.push("second"));
+    events.onAny(() => {
+      throw "any failed";
+    });
+
+    let thrown: unknown;
+    try {
+      events.emit("close");
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(calls).toEqual(["second"]);
+    expect(thrown).toBeInstanceOf(EmitError);
+    expect((thrown as EmitError).message).toBe(
+      '2 listeners for "close" threw: first failed; any failed'
+    );
+    expect((thrown as EmitError).errors).toHaveLength(2);
+  });
+
+  it("should pass listener errors to onError instead of throwing", () => {
+    const onError = jest.fn();
+    const events = new TypedEmitter<WindowEvents>({ onError });
+    const failure = new Error("failed");
+    events.on("title", () => {
+      throw failure;
+    });
+
+    expect(events.emit("title", "x")).toBe(true);
+    expect(onError).toHaveBeenCalledWith(failure, "title");
+  });
+
+  describe("waitFor", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it("should resolve with the arguments of the next emit", async () => {
+      const events = new TypedEmitter<WindowEvents>();
+      const resized = events.waitFor("resize", { timeout: 1000 });
+
+      events.emit("resize", 1024, 768);
+
+      await expect(resized).resolves.toEqual([1024, 768]);
+      expect(events.listenerCount("resize")).toBe(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should reject when the event does not come in time", async () => {
+      const events = new TypedEmitter<WindowEvents>();
+      const closed = events.waitFor("close", { timeout: 500 });
+
+      jest.advanceTimersByTime(500);
+
+      await expect(closed).rejects.toThrow(WaitTimeoutError);
+      await expect(closed).rejects.toThrow(
+        'Timed out after 500 ms waiting for "close"'
+      );
+      expect(events.listenerCount("close")).toBe(0);
+    });
+  });
+
+  it("should type listeners and payloads from the event map", () => {
+    expect(
+      typeErrors(
+        'events.on("resize", (width, height) => {',
+        "  expectType<number>(width);",
+        "  expectType<number>(height);",
+        "});",
+        "events.onAny((...args) => {",
+        '  if (args[0] === "title") expectType<[event: "title", title: string]>(args);',
+        "});",
+        'expectType<Promise<[]>>(events.waitFor("close"));'
+      )
+    ).toEqual([]);
+  });
+
+  it("should reject unknown events and wrong payloads", () => {
+    const errors = typeErrors(
+      'events.emit("resise", 800, 600);',
+      'events.emit("resize", "800", 600);',
+      'events.emit("close", true);',
+      'events.on("title", (title: number) => title);',
+      'events.off("closed", () => undefined);'
+    );
+
+    expect(errors.map(({ line }) => line)).toEqual([9, 10, 11, 12, 13]);
+  });
+});
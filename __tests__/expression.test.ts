@@ -0,0 +1,191 @@
+import { isDeepStrictEqual } from "util";
+import {
+  BinaryOperator,
+  evaluate,
+  EvaluationError,
+  Expression,
+  ExpressionSyntaxError,
+  parse,
+  print,
+  tokenize,
+} from "../src/expression";
+import {
+  Arbitrary,
+  array,
+  constant,
+  forAll,
+  integer,
+  oneOf,
+  recursive,
+  tuple,
+} from "../src/property";
+
+/** Syntax trees with every column set to 0, to compare their shape. */
+function shape(expression: Expression): Expression {
+  return JSON.parse(
+    JSON.stringify(expression, (key, value) => (key === "column" ? 0 : value))
+  );
+}
+
+function expression(): Arbitrary<Expression> {
+  const operator = oneOf<BinaryOperator>(
+    ...(["+", "-", "*", "/", "%", "^"] as const).map((op) => constant(op))
+  );
+  const base = oneOf<Expression>(
+    integer({ min: 0, max: 1000 }).map((value) => ({
+      type: "number",
+      value,
+      column: 0,
+    })),
+    constant(0.25).map((value) => ({ type: "number", value, column: 0 })),
+    oneOf(constant("x"), constant("rate")).map((name) => ({
+      type: "variable",
+      name,
+      column: 0,
+    }))
+  );
+  return recursive(base, (nested) =>
+    oneOf<Expression>(
+      nested.map((operand) => ({ type: "negate", operand, column: 0 })),
+      tuple(operator, nested, nested).map(([operator, left, right]) => ({
+        type: "binary",
+        operator,
+        left,
+        right,
+        column: 0,
+      })),
+      array(nested, { maxLength: 3 }).map((args) => ({
+        type: "call",
+        callee: "max",
+        args,
+        column: 0,
+      }))
+    )
+  );
+}
+
+describe("tokenize", () => {
+  it("should split the source into tokens with their columns", () => {
+    expect(tokenize("max(x, 1.5e3) ^ -.5")).toEqual([
+      { kind: "name", text: "max", column: 1 },
+      { kind: "(", text: "(", column: 4 },
+      { kind: "name", text: "x", column: 5 },
+      { kind: ",", text: ",", column: 6 },
+      { kind: "number", text: "1.5e3", column: 8 },
+      { kind: ")", text: ")", column: 13 },
+      { kind: "operator", text: "^", column: 15 },
+      { kind: "operator", text: "-", column: 17 },
+      { kind: "number", text: ".5", column: 18 },
+      { kind: "end", text: "", column: 20 },
+    ]);
+  });
+
+  it("should reject characters that start no token", () => {
+    expect(() => tokenize("2 # 3")).toThrow(
+      new ExpressionSyntaxError("Unexpected character '#'", 3)
+    );
+  });
+});
+
+describe("parse", () => {
+  it("should build a syntax tree", () => {
+    expect(parse("2 * -x")).toEqual({
+      type: "binary",
+      operator: "*",
+      left: { type: "number", value: 2, column: 1 },
+      right: {
+        type: "negate",
+        operand: { type: "variable", name: "x", column: 6 },
+        column: 5,
+      },
+      column: 3,
+    });
+  });
+
+  it.each([
+    ["1 + 2 * 3", "1 + (2 * 3)"],
+    ["1 - 2 - 3", "(1 - 2) - 3"],
+    ["2 ^ 3 ^ 2", "2 ^ (3 ^ 2)"],
+    ["-2 ^ 2", "-(2 ^ 2)"],
+    ["2 ^ -1 * 3", "(2 ^ (-1)) * 3"],
+    ["8 / 4 % 3", "(8 / 4) % 3"],
+  ])("should read %s as %s", (source, parenthesized) => {
+    expect(shape(parse(source))).toEqual(shape(parse(parenthesized)));
+  });
+
+  it("should parse function calls with any number of arguments", () => {
+    const call = parse("max(1, min(2, 3), sqrt())");
+
+    expect(call.type === "call" && call.args.map(print)).toEqual([
+      "1",
+      "min(2, 3)",
+      "sqrt()",
+    ]);
+  });
+
+  it.each([
+    ["10 + 5)", "Unexpected token ')' at 7"],
+    ["10 + ", "Unexpected end of input at 6"],
+    ["(1 + 2", "Unexpected end of input at 7"],
+    ["max(1 2)", "Unexpected token '2' at 7"],
+    ["2x", "Unexpected token 'x' at 2"],
+    ["* 3", "Unexpected token '*' at 1"],
+    ["2 * 1e400", "Number '1e400' is too large at 5"],
+  ])("should reject %p with %p", (source, message) => {
+    expect(() => parse(source)).toThrow(ExpressionSyntaxError);
+    expect(() => parse(source)).toThrow(message);
+  });
+});
+
+describe("print", () => {
+  it("should only write the parentheses the tree needs", () => {
+    expect(print(parse("((1 + 2)) * 3 * (4 - ((5) - x))"))).toBe(
+      "(1 + 2) * 3 * (4 - (5 - x))"
+    );
+    expect(print(parse("(-2) ^ 2 + -(-x) + max((1), 2 ^ (3 ^ 4))"))).toBe(
+      "(-2) ^ 2 + -(-x) + max(1, 2 ^ 3 ^ 4)"
+    );
+  });
+
+  it("should round-trip through parse", () => {
+    forAll(expression(), (tree) => {
+      const source = print(tree);
+      return (
+        isDeepStrictEqual(shape(parse(source)), tree) &&
+        print(parse(source)) === source
+      );
+    });
+  });
+});
+
+describe("evaluate", () => {
+  it("should compute the example formula", () => {
+    expect(evaluate("10 + 5 * (2 - x) ^ 2", { variables: { x: 4 } })).toBe(30);
+  });
+
+  it("should call the built-in and given functions", () => {
+    const functions = { hypot: (a: number, b: number) => Math.hypot(a, b) };
+
+    expect(evaluate("max(1, 7, 3) - min(4, 2) + sqrt(16)")).toBe(9);
+    expect(evaluate("hypot(3, 4)", { functions })).toBe(5);
+  });
+
+  it("should evaluate a parsed tree as well as source", () => {
+    const tree = parse("rate * 2");
+
+    expect(evaluate(tree, { variables: { rate: 1.5 } })).toBe(3);
+    expect(evaluate(tree, { variables: { rate: 4 } })).toBe(8);
+  });
+
+  it.each([
+    ["1 + y", "Unknown variable 'y' at 5", {}],
+    ["toString", "Unknown variable 'toString' at 1", {}],
+    ["2 * avg(1)", "Unknown function 'avg' at 5", {}],
+    ["sqrt()", "sqrt expects at least 1 argument but got 0 at 1", {}],
+    ["1 / (x - 2)", "Division by zero at 3", { x: 2 }],
+    ["5 % 0", "Division by zero at 3", {}],
+  ])("should reject %p with %p", (source, message, variables) => {
+    expect(() => evaluate(source, { variables })).toThrow(EvaluationError);
+    expect(() => evaluate(source, { variables })).toThrow(message);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  CLASSIC,
+  containsDigit,
+  divisibleBy,
+  fizzbuzz,
+  FIZZ_BUZZ_BAZZ,
+  Game,
+  isPrime,
+  JAZZ,
+  prime,
+  range,
+  say,
+  when,
+} from "../src/fizzbuzz";
+import { forAll, integer } from "../src/property";
+
+describe("range", () => {
+  it("should count up to and including the end", () => {
+    const actual = [...range({ start: 1, end: 5 })];
+
+    expect(actual).toStrictEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should support steps, counting down and bigints", () => {
+    expect([...range({ start: 10, end: 1, step: -3 })]).toStrictEqual([
+      10, 7, 4, 1,
+    ]);
+    expect([...range({ start: 2n, end: 8n, step: 3n })]).toStrictEqual([
+      2n,
+      5n,
+      8n,
+    ]);
+  });
+
+  it("should reject a zero step", () => {
+    expect(() => [...range({ start: 1, end: 5, step: 0 })]).toThrow(RangeError);
+  });
+});
+
+describe("say", () => {
+  it("should play the classic game", () => {
+    const actual = [1, 3, 5, 15, 16].map((n) => say(n));
+
+    expect(actual).toStrictEqual(["1", "Fizz", "Buzz", "FizzBuzz", "16"]);
+  });
+
+  it("should concatenate words in rule order", () => {
+    expect(say(105, FIZZ_BUZZ_BAZZ)).toBe("FizzBuzzBazz");
+    expect(say(21, FIZZ_BUZZ_BAZZ)).toBe("FizzBazz");
+    expect(say(15, [divisibleBy(5, "Buzz"), divisibleBy(3, "Fizz")])).toBe(
+      "BuzzFizz"
+    );
+  });
+
+  it("should let overriding rules replace the output", () => {
+    expect(say(27, JAZZ)).toBe("Jazz");
+    expect(say(75, JAZZ)).toBe("Jazz");
+    expect(say(30, JAZZ)).toBe("FizzBuzz");
+  });
+
+  it("should accept arbitrary predicates", () => {
+    const game: Game<number> = [
+      prime("Prime"),
+      when((n: number) => n > 10, "Big"),
+      containsDigit(1, "One"),
+    ];
+
+    expect(say(11, game)).toBe("PrimeBigOne");
+    expect(say(4, game)).toBe("4");
+  });
+
+  it("should play with bigints beyond the safe integer range", () => {
+    const n = 2n ** 64n * 15n;
+
+    expect(say(n)).toBe("FizzBuzz");
+    expect(say(n + 1n)).toBe((n + 1n).toString());
+  });
+
+  it("should reject a zero divisor", () => {
+    expect(() => divisibleBy(0, "Nope")).toThrow(RangeError);
+  });
+
+  it("should say FizzBuzz for every 15th number", () => {
+    const multiple = integer({ min: 1, max: 2 ** 48 });
+
+    forAll(multiple, (k) => say(15 * k) === "FizzBuzz");
+    forAll(multiple, (k) => say(BigInt(15 * k)) === "FizzBuzz");
+  });
+
+  it("should only say FizzBuzz for multiples of 15", () => {
+    forAll(integer({ min: 1, max: 1_000_000 }), (n) =>
+      say(n) === "FizzBuzz" ? n % 15 === 0 : n % 15 !== 0
+    );
+  });
+});
+
+describe("isPrime", () => {
+  it("should recognise primes", () => {
+    const actual = [...range({ start: 0, end: 20 })].filter(isPrime);
+
+    expect(actual).toStrictEqual([2, 3, 5, 7, 11, 13, 17, 19]);
+  });
+});
+
+describe("fizzbuzz", () => {
+  it("should yield outputs lazily", () => {
+    const game = fizzbuzz({ start: 1, end: Number.MAX_SAFE_INTEGER }, CLASSIC);
+
+    const actual = [game.next().value, game.next().value, game.next().value];
+
+    expect(actual).toStrictEqual(["1", "2", "Fizz"]);
+  });
+
+  it("should play over a bigint range", () => {
+    const actual = [...fizzbuzz({ start: 9n, end: 15n, step: 3n })];
+
+    expect(actual).toStrictEqual(["Fizz", "Fizz", "FizzBuzz"]);
+  });
+});
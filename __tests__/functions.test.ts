@@ -0,0 +1,308 @@
+import { resolve } from "path";
+import {
+  CancelledError,
+  compose,
+  curry,
+  debounce,
+  memoize,
+  once,
+  partial,
+  pipe,
+  throttle,
+} from "../src/functions";
+import { checkSources } from "../src/type-check";
+
+// The signature tests compile a snippet each.
+jest.setTimeout(60_000);
+
+const signatures = (...lines: string[]) =>
+  checkSources({
+    [resolve(__dirname, "snippet.ts")]: [
+      "import {",
+      "  compose, curry, debounce, memoize, partial, pipe, throttle,",
+      '} from "../src/functions";',
+      'import { expectType } from "../src/type-check";',
+      "const add3 = (a: number, b: number, c: number) => a + b + c;",
+      ...lines,
+    ].join("\n"),
+  }).map(({ line, message }) => ({ line, message }));
+
+describe("pipe and compose", () => {
+  it("should chain left to right and right to left", () => {
+    const shout = pipe(
+      (name: string) => name.trim(),
+      (name) => name.toUpperCase(),
+      (name) => `${name}!`
+    );
+    const length = compose(
+      (n: number) => n * 2,
+      (text: string) => text.length
+    );
+
+    expect(shout(" bob ")).toBe("BOB!");
+    expect(length("abc")).toBe(6);
+  });
+
+  it("should pass every argument to the first function", () => {
+    const sum = pipe(
+      (a: number, b: number) => a + b,
+      (n) => n * 10
+    );
+
+    expect(sum(1, 2)).toBe(30);
+  });
+
+  it("should infer types across ten stages", () => {
+    const actual = signatures(
+      "const ten = pipe(",
+      "  (a: number, b: number) => a + b,",
+      "  (n) => String(n),",
+      "  (s) => s.length,",
+      "  (n) => n > 1,",
+      "  (b) => (b ? [1] : []),",
+      "  (xs) => xs.map((x) => `${x}`),",
+      "  (xs) => xs.join(),",
+      "  (s) => ({ s }),",
+      "  ({ s }) => s.split(''),",
+      "  (xs) => new Set(xs)",
+      ");",
+      "expectType<(a: number, b: number) => Set<string>>(ten);",
+      "const round = compose(String, Math.round, (x: string) => Number(x));",
+      "expectType<(x: string) => string>(round);"
+    );
+
+    expect(actual).toStrictEqual([]);
+  });
+
+  it("should reject stages that do not fit together", () => {
+    pipe(
+      // @ts-expect-error pipe(f, g) needs f to return what g takes
+      (n: number) => n,
+      (s: string) => s
+    );
+    compose(
+      (s: string) => s,
+      // @ts-expect-error compose(f, g) needs g to return what f takes
+      (n: number) => n
+    );
+  });
+});
+
+describe("curry and partial", () => {
+  const add3 = (a: number, b: number, c: number) => a + b + c;
+
+  it("should take arguments one at a time", () => {
+    const curried = curry(add3, 3);
+
+    expect(curried(1)(2)(3)).toBe(6);
+    expect(curry(() => 42, 0)).toBe(42);
+    // @ts-expect-error add3 has three required parameters
+    curry(add3, 2);
+  });
+
+  it("should stop at the required parameters", () => {
+    const greet = (name: string, greeting?: string) =>
+      `${greeting ?? "Hello"} ${name}`;
+    const square = memoize((n: number) => n * n);
+
+    expect(curry(greet, 1)("Bob")).toBe("Hello Bob");
+    expect(curry(square, 1)(3)).toBe(9);
+  });
+
+  it("should fix the first arguments", () => {
+    expect(partial(add3, 1, 2)(3)).toBe(6);
+    expect(partial(add3)(1, 2, 3)).toBe(6);
+    // @ts-expect-error "1" is not a number
+    partial(add3, "1");
+  });
+
+  it("should keep the parameter names", () => {
+    const actual = signatures(
+      "expectType<(a: number) => (b: number) => (c: number) => number>(curry(add3, 3));",
+      "expectType<(b: number, c: number) => number>(partial(add3, 1));",
+      "const greet = (name: string, greeting?: string) => `${greeting} ${name}`;",
+      "expectType<(name: string) => string>(curry(greet, 1));",
+      "expectType<(greeting?: string | undefined) => string>(partial(greet, ''));"
+    );
+
+    expect(actual).toStrictEqual([]);
+  });
+});
+
+describe("memoize", () => {
+  it("should cache results by the first argument", () => {
+    const square = jest.fn((n: number) => n * n);
+    const memoized = memoize(square);
+
+    expect(memoized(3)).toBe(9);
+    expect(memoized(3)).toBe(9);
+    expect(square).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use the key function", () => {
+    const add = jest.fn((a: number, b: number) => a + b);
+    const memoized = memoize(add, { key: (a, b) => `${a},${b}` });
+
+    memoized(1, 2);
+    memoized(2, 1);
+    memoized(1, 2);
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect([...memoized.cache.keys()]).toStrictEqual(["2,1", "1,2"]);
+  });
+
+  it("should drop the least recently used result", () => {
+    const memoized = memoize((n: number) => n * 2, { maxSize: 2 });
+
+    memoized(1);
+    memoized(2);
+    memoized(1);
+    memoized(3);
+
+    expect([...memoized.cache.keys()]).toStrictEqual([1, 3]);
+    expect(() => memoize(String, { maxSize: 0 })).toThrow(
+      new RangeError("maxSize must be at least 1, got 0")
+    );
+  });
+
+  it("should not keep rejected promises", async () => {
+    let calls = 0;
+    const load = memoize(async (id: number) => {
+      calls++;
+      if (calls === 1) {
+        throw new Error("offline");
+      }
+      return { id };
+    });
+
+    await expect(load(1)).rejects.toThrow("offline");
+    await expect(load(1)).resolves.toStrictEqual({ id: 1 });
+    await expect(load(1)).resolves.toStrictEqual({ id: 1 });
+    expect(calls).toBe(2);
+  });
+
+  it("should not keep rejected thenables without a catch method", async () => {
+    let calls = 0;
+    const load = memoize((id: number): PromiseLike<number> => {
+      calls++;
+      const result =
+        calls === 1
+          ? Promise.reject(new Error("offline"))
+          : Promise.resolve(id);
+      return {
+        then: (onFulfilled, onRejected) => result.then(onFulfilled, onRejected),
+      };
+    });
+
+    await expect(load(1)).rejects.toThrow("offline");
+    await expect(load(1)).resolves.toBe(1);
+    await expect(load(1)).resolves.toBe(1);
+    expect(calls).toBe(2);
+  });
+
+  it("should type the cache by the key", () => {
+    const actual = signatures(
+      "const memoized = memoize(add3, { key: (a, b, c) => [a, b, c].join() });",
+      "expectType<Map<string, number>>(memoized.cache);",
+      "expectType<Map<number, number>>(memoize(add3).cache);"
+    );
+
+    expect(actual).toStrictEqual([]);
+  });
+});
+
+describe("once", () => {
+  it("should call the function the first time only", () => {
+    const init = jest.fn((n: number) => ({ n }));
+    const initOnce = once(init);
+
+    const first = initOnce(1);
+
+    expect(initOnce(2)).toBe(first);
+    expect(init).toHaveBeenCalledTimes(1);
+    expect(first).toStrictEqual({ n: 1 });
+  });
+});
+
+describe("debounce and throttle", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should debounce to one call with the latest arguments", async () => {
+    const save = jest.fn((text: string) => text.length);
+    const debounced = debounce(save, 100);
+
+    const first = debounced("a");
+    jest.advanceTimersByTime(50);
+    const second = debounced("abc");
+    jest.advanceTimersByTime(99);
+    expect(save).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+
+    await expect(first).resolves.toBe(3);
+    await expect(second).resolves.toBe(3);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith("abc");
+  });
+
+  it("should debounce async functions and pass on their errors", async () => {
+    const fail = debounce(async (message: string) => {
+      throw new Error(message);
+    }, 10);
+    const load = debounce(async (id: number) => ({ id }), 10);
+
+    const failed = fail("boom");
+    const loaded = load(7);
+    jest.advanceTimersByTime(10);
+
+    await expect(failed).rejects.toThrow("boom");
+    await expect(loaded).resolves.toStrictEqual({ id: 7 });
+  });
+
+  it("should reject the calls a cancel drops", async () => {
+    const save = jest.fn();
+    const debounced = debounce(save, 100);
+
+    const call = debounced();
+    debounced.cancel();
+    jest.advanceTimersByTime(100);
+
+    await expect(call).rejects.toThrow(CancelledError);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it("should throttle to the first call and one at the end of the wait", async () => {
+    const track = jest.fn((n: number) => n);
+    const throttled = throttle(track, 100);
+
+    const first = throttled(1);
+    const second = throttled(2);
+    const third = throttled(3);
+    expect(track).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(100);
+
+    await expect(first).resolves.toBe(1);
+    await expect(second).resolves.toBe(3);
+    await expect(third).resolves.toBe(3);
+    expect(track.mock.calls).toStrictEqual([[1], [3]]);
+
+    jest.advanceTimersByTime(100);
+    await expect(throttled(4)).resolves.toBe(4);
+    expect(track).toHaveBeenCalledTimes(3);
+  });
+
+  it("should type the result as a promise", () => {
+    const actual = signatures(
+      "const throttled = throttle(async (n: number) => String(n), 10);",
+      "expectType<Promise<string>>(throttled(1));",
+      "expectType<Promise<number>>(debounce(add3, 10)(1, 2, 3));"
+    );
+
+    expect(actual).toStrictEqual([]);
+  });
+});
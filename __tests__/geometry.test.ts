@@ -0,0 +1,156 @@
+import {
+  add,
+  boundingBox,
+  boxContains,
+  cross,
+  distance,
+  dot,
+  equals,
+  format,
+  GeometryError,
+  length,
+  normalize,
+  parse,
+  pointInPolygon,
+  polygonArea,
+  scale,
+  signedArea,
+  subtract,
+  vec2,
+  vec3,
+} from "../src/geometry";
+
+describe("vectors", () => {
+  it("should do arithmetic in 2D and 3D", () => {
+    expect(add(vec2(1, 2), vec2(3, 4))).toStrictEqual(vec2(4, 6));
+    expect(subtract(vec3(1, 2, 3), vec3(1, 1, 1))).toStrictEqual(vec3(0, 1, 2));
+    expect(scale(vec3(1, -2, 3), 2)).toStrictEqual(vec3(2, -4, 6));
+    expect(dot(vec3(1, 2, 3), vec3(4, 5, 6))).toBe(32);
+  });
+
+  it("should keep z instead of silently treating a 3D point as 2D", () => {
+    const point3 = { x: 12, y: 26, z: 100 };
+
+    expect(add(point3, point3)).toStrictEqual(vec3(24, 52, 200));
+    expect(() => add(vec2(1, 2), point3)).toThrow(
+      new GeometryError("Cannot combine a 2D and a 3D vector")
+    );
+  });
+
+  it("should return immutable vectors", () => {
+    const actual = add(vec2(1, 2), { x: 3, y: 4 });
+
+    expect(Object.isFrozen(actual)).toBe(true);
+  });
+
+  it("should compute cross products", () => {
+    expect(cross(vec3(1, 0, 0), vec3(0, 1, 0))).toStrictEqual(vec3(0, 0, 1));
+    expect(cross(vec2(1, 0), vec2(0, 1))).toBe(1);
+    expect(cross(vec2(0, 1), vec2(1, 0))).toBe(-1);
+  });
+
+  it("should measure and normalize", () => {
+    expect(length(vec2(3, 4))).toBe(5);
+    expect(distance(vec3(1, 1, 1), vec3(3, 3, 2))).toBe(3);
+    expect(normalize(vec2(0, 5))).toStrictEqual(vec2(0, 1));
+    expect(length(normalize(vec3(1, 2, 3)))).toBeCloseTo(1);
+    expect(() => normalize(vec2(0, 0))).toThrow(GeometryError);
+  });
+
+  it("should compare within a tolerance", () => {
+    expect(equals(vec2(0.1 + 0.2, 1), vec2(0.3, 1))).toBe(true);
+    expect(equals(vec2(1e12 + 0.0001, 0), vec2(1e12, 0))).toBe(true);
+    expect(equals(vec2(1, 1), vec2(1.01, 1))).toBe(false);
+    expect(equals(vec2(1, 1), vec2(1.01, 1), 0.1)).toBe(true);
+    expect(equals(vec2(1, 1), vec3(1, 1, 0))).toBe(false);
+  });
+});
+
+describe("format and parse", () => {
+  it("should format like logPoint, keeping z", () => {
+    expect(format({ x: 12, y: 26 })).toBe("12, 26");
+    expect(format({ x: 12, y: 26, z: 100 })).toBe("12, 26, 100");
+    expect(format(vec2(1 / 3, 2), 2)).toBe("0.33, 2.00");
+  });
+
+  it("should parse what it formats", () => {
+    expect(parse("12, 26")).toStrictEqual(vec2(12, 26));
+    expect(parse(" -1.5,2e3 , 0 ")).toStrictEqual(vec3(-1.5, 2000, 0));
+    expect(parse(format(vec3(0.1, -7, 1e21)))).toStrictEqual(
+      vec3(0.1, -7, 1e21)
+    );
+  });
+
+  it("should reject malformed input", () => {
+    expect(() => parse("12")).toThrow(GeometryError);
+    expect(() => parse("1, 2, 3, 4")).toThrow(GeometryError);
+    expect(() => parse("1, , 2")).toThrow(GeometryError);
+    expect(() => parse("1, x")).toThrow('Expected "x, y" or "x, y, z"');
+  });
+});
+
+describe("bounding boxes", () => {
+  it("should hold every point", () => {
+    const points = [vec3(1, 5, -1), vec3(-2, 0, 4), vec3(3, 2, 0)];
+
+    const actual = boundingBox(points);
+
+    expect(actual).toStrictEqual({
+      min: vec3(-2, 0, -1),
+      max: vec3(3, 5, 4),
+    });
+    expect(points.every((point) => boxContains(actual, point))).toBe(true);
+    expect(boxContains(actual, vec3(0, 6, 0))).toBe(false);
+  });
+
+  it("should need at least one point", () => {
+    expect(() => boundingBox([])).toThrow(GeometryError);
+  });
+});
+
+describe("polygons", () => {
+  const square = [vec2(0, 0), vec2(4, 0), vec2(4, 4), vec2(0, 4)];
+  // An L shape, to check that a concave corner is outside.
+  const ell = [
+    vec2(0, 0),
+    vec2(4, 0),
+    vec2(4, 1),
+    vec2(1, 1),
+    vec2(1, 4),
+    vec2(0, 4),
+  ];
+
+  it("should compute signed and absolute areas", () => {
+    expect(signedArea(square)).toBe(16);
+    expect(signedArea([...square].reverse())).toBe(-16);
+    expect(polygonArea(ell)).toBe(7);
+    expect(polygonArea([vec2(0, 0), vec2(1, 1)])).toBe(0);
+  });
+
+  it("should tell whether a point is inside", () => {
+    expect(pointInPolygon(vec2(2, 2), square)).toBe(true);
+    expect(pointInPolygon(vec2(5, 2), square)).toBe(false);
+    expect(pointInPolygon(vec2(0.5, 3), ell)).toBe(true);
+    expect(pointInPolygon(vec2(3, 3), ell)).toBe(false);
+  });
+
+  it("should count points on an edge or vertex as inside", () => {
+    expect(pointInPolygon(vec2(4, 2), square)).toBe(true);
+    expect(pointInPolygon(vec2(0, 0), square)).toBe(true);
+    expect(pointInPolygon(vec2(2.5, 1), ell)).toBe(true);
+  });
+
+  it("should not count a point just off a long edge as on it", () => {
+    const triangle = [vec2(0, 0), vec2(1e6, 0), vec2(5e5, 1e6)];
+
+    expect(pointInPolygon(vec2(5e5, -0.01), triangle)).toBe(false);
+    expect(pointInPolygon(vec2(5e5, 0), triangle)).toBe(true);
+    expect(pointInPolygon(vec2(1e6 + 0.01, 0), triangle)).toBe(false);
+  });
+
+  it("should reject 3D points", () => {
+    expect(() => polygonArea([vec3(0, 0, 1), vec3(1, 0, 1)])).toThrow(
+      "Polygons take 2D points only"
+    );
+  });
+});
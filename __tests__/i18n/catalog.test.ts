@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  argumentNames,
+  Catalog,
+  catalog,
+  loadBundles,
+  MissingMessageError,
+} from "../../src/i18n";
+
+describe("Catalog", () => {
+  const shop = new Catalog<{
+    items: { count: number };
+    title: Record<never, never>;
+  }>({
+    defaultLocale: "en",
+    bundles: {
+      en: {
+        items: "{count, plural, one {# item} other {# items}}",
+        title: "Shop",
+      },
+      fr: { items: "{count, plural, one {# article} other {# articles}}" },
+      "fr-CA": { title: "Boutique" },
+    },
+  });
+
+  it("should fall back from a region to its language to the default", () => {
+    expect(shop.fallbackChain("fr-CA")).toStrictEqual(["fr-CA", "fr", "en"]);
+    expect(shop.translate("fr-CA", "title")).toBe("Boutique");
+    expect(shop.translate("fr-CA", "items", { count: 2 })).toBe("2 articles");
+    expect(shop.translate("fr", "title")).toBe("Shop");
+    expect(shop.translate("de-AT", "title")).toBe("Shop");
+  });
+
+  it("should canonicalize locale tags", () => {
+    expect(shop.translate("fr-ca", "title")).toBe("Boutique");
+    expect(shop.locales).toStrictEqual(["en", "fr", "fr-CA"]);
+  });
+
+  it("should give a translator bound to a locale", () => {
+    const t = shop.translator("fr");
+
+    expect(t("items", { count: 1 })).toBe("1 article");
+    expect(t("title")).toBe("Shop");
+  });
+
+  it("should check keys and parameter names at compile time", () => {
+    const t = shop.translator("en");
+
+    // @ts-expect-error "missing" is not a message
+    expect(() => t("missing")).toThrow(MissingMessageError);
+    // @ts-expect-error items needs a count
+    expect(() => t("items")).toThrow('Missing value for "count"');
+    // @ts-expect-error total is not a parameter of items
+    expect(() => t("items", { total: 1 })).toThrow();
+  });
+
+  it("should not treat inherited members as messages", () => {
+    // @ts-expect-error "toString" is not a message
+    expect(() => shop.translate("en", "toString")).toThrow(MissingMessageError);
+  });
+
+  it("should load bundles from a directory of JSON files", () => {
+    const directory = mkdtempSync(join(tmpdir(), "bundles-"));
+    try {
+      writeFileSync(join(directory, "en.json"), '{"title":"Shop"}');
+      writeFileSync(join(directory, "pt-br.json"), '{"title":"Loja"}');
+      writeFileSync(join(directory, "notes.txt"), "ignored");
+
+      const actual = loadBundles(directory);
+
+      expect(actual).toStrictEqual({
+        en: { title: "Shop" },
+        "pt-BR": { title: "Loja" },
+      });
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+});
+
+describe("project messages", () => {
+  it("should use the same parameters in every translation", () => {
+    const bundles = loadBundles(join(__dirname, "../../src/i18n/locales"));
+
+    for (const [key, message] of Object.entries(bundles.en)) {
+      const expected = argumentNames(message).sort();
+      for (const bundle of Object.values(bundles)) {
+        if (key in bundle) {
+          expect(argumentNames(bundle[key]).sort()).toStrictEqual(expected);
+        }
+      }
+    }
+  });
+
+  it("should pluralize and select in French", () => {
+    const t = catalog.translator("fr-CA");
+
+    expect(t("visitors", { count: 0 })).toBe("Personne n'est encore là");
+    expect(t("visitors", { count: 2 })).toBe("2 personnes sont là");
+    expect(t("arrival", { who: "Jill", role: "host" })).toBe(
+      "Jill anime la séance aujourd'hui."
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  argumentNames,
+  formatMessage,
+  MessageFormatError,
+} from "../../src/i18n/message-format";
+
+describe("formatMessage", () => {
+  it("should replace simple arguments", () => {
+    const actual = formatMessage("Hello {who}, meet { other }!", {
+      who: "Bob",
+      other: "Sally",
+    });
+
+    expect(actual).toBe("Hello Bob, meet Sally!");
+  });
+
+  it("should format numbers for the locale", () => {
+    expect(formatMessage("{n} items", { n: 1234.5 }, "en")).toBe(
+      "1,234.5 items"
+    );
+    expect(formatMessage("{n} items", { n: 1234.5 }, "de")).toBe(
+      "1.234,5 items"
+    );
+  });
+
+  it("should choose plural branches by exact value, then category", () => {
+    const message =
+      "{count, plural, =0 {no messages} one {# message} other {# messages}}";
+
+    expect(formatMessage(message, { count: 0 })).toBe("no messages");
+    expect(formatMessage(message, { count: 1 })).toBe("1 message");
+    expect(formatMessage(message, { count: 1000 })).toBe("1,000 messages");
+  });
+
+  it("should use the plural rules of the locale", () => {
+    const message =
+      "{n, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}";
+
+    expect(formatMessage(message, { n: 1 }, "pl")).toBe("1 plik");
+    expect(formatMessage(message, { n: 3 }, "pl")).toBe("3 pliki");
+    expect(formatMessage(message, { n: 5 }, "pl")).toBe("5 plików");
+  });
+
+  it("should choose select branches and fall back to other", () => {
+    const message =
+      "{role, select, admin {An administrator} other {A visitor}} arrived";
+
+    expect(formatMessage(message, { role: "admin" })).toBe(
+      "An administrator arrived"
+    );
+    expect(formatMessage(message, { role: "guest" })).toBe("A visitor arrived");
+    expect(formatMessage(message, { role: "constructor" })).toBe(
+      "A visitor arrived"
+    );
+  });
+
+  it("should nest arguments inside branches", () => {
+    const message =
+      "{who} has {count, plural, one {one {kind} message} other {# {kind, select, urgent {urgent} other {new}} messages}}";
+
+    expect(formatMessage(message, { who: "Bob", count: 1, kind: "new" })).toBe(
+      "Bob has one new message"
+    );
+    expect(
+      formatMessage(message, { who: "Bob", count: 2, kind: "urgent" })
+    ).toBe("Bob has 2 urgent messages");
+  });
+
+  it("should support apostrophe quoting", () => {
+    expect(formatMessage("It''s '{literal}' and it's {x}", { x: "fine" })).toBe(
+      "It's {literal} and it's fine"
+    );
+    expect(formatMessage("# is only special in plurals")).toBe(
+      "# is only special in plurals"
+    );
+  });
+
+  it("should report malformed messages and missing values", () => {
+    expect(() => formatMessage("Hello {who")).toThrow(MessageFormatError);
+    expect(() => formatMessage("Hello }")).toThrow('Unexpected "}" at 7');
+    expect(() => formatMessage("{n, plural, one {x}}", { n: 1 })).toThrow(
+      'needs an "other" option'
+    );
+    expect(() => formatMessage("Hello {who}")).toThrow(
+      'Missing value for "who"'
+    );
+    expect(() => formatMessage("Hello {toString}")).toThrow(
+      'Missing value for "toString"'
+    );
+  });
+});
+
+describe("argumentNames", () => {
+  it("should list every argument, including nested ones", () => {
+    const actual = argumentNames(
+      "{who}: {count, plural, other {# {kind, select, other {x}}}}"
+    );
+
+    expect(actual).toStrictEqual(["who", "count", "kind"]);
+  });
+});
@@ -0,0 +1,28 @@
+import hello from "../src";
+
+describe("hello", () => {
+  it("should greet the world by default", () => {
+    const actual = hello();
+
+    expect(actual).toBe(
+      "Hello world! Yeauhh. Bout time the troops do it, stay true with another flow"
+    );
+  });
+
+  it("should greet someone by name", () => {
+    expect(hello("Bob")).toMatch(/^Hello Bob!/);
+  });
+
+  it("should greet in the requested locale", () => {
+    expect(hello(undefined, { locale: "fr" })).toBe(
+      "Bonjour le monde ! Il était temps."
+    );
+    expect(hello("Jill", { locale: "fr-CA" })).toBe(
+      "Allô Jill ! Il était temps."
+    );
+  });
+
+  it("should fall back to English for unknown locales", () => {
+    expect(hello("Bob", { locale: "xx" })).toMatch(/^Hello Bob!/);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  applyPatch,
+  diff,
+  formatPointer,
+  JsonPatchError,
+  Operation,
+  parsePointer,
+} from "../src/json-patch";
+
+describe("JSON Pointer", () => {
+  it("should escape and unescape reference tokens", () => {
+    const pointer = formatPointer(["a/b", "m~n", 0]);
+
+    expect(pointer).toBe("/a~1b/m~0n/0");
+    expect(parsePointer(pointer)).toStrictEqual(["a/b", "m~n", "0"]);
+  });
+
+  it("should reject malformed pointers", () => {
+    expect(() => parsePointer("a/b")).toThrow(SyntaxError);
+    expect(() => parsePointer("/a~2")).toThrow(SyntaxError);
+  });
+});
+
+describe("diff", () => {
+  it("should return no operations for equal documents", () => {
+    const actual = diff({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 });
+
+    expect(actual).toStrictEqual([]);
+  });
+
+  it("should point at the nested value that differs", () => {
+    const source = { z: "z", a: "a", j: { c: { x: "x", w: "w" }, b: "b" } };
+    const target = { z: "z", a: "a", j: { c: { x: "X", w: "w" }, b: "b" } };
+
+    const actual = diff(source, target);
+
+    expect(actual).toStrictEqual([
+      { op: "replace", path: "/j/c/x", value: "X" },
+    ]);
+  });
+
+  it("should add and remove object members and array items", () => {
+    const actual = diff(
+      { keep: 1, gone: 2, list: [1, 2, 3] },
+      { keep: 1, added: 3, list: [1, 5] }
+    );
+
+    expect(actual).toStrictEqual([
+      { op: "remove", path: "/gone" },
+      { op: "replace", path: "/list/1", value: 5 },
+      { op: "remove", path: "/list/2" },
+      { op: "add", path: "/added", value: 3 },
+    ]);
+  });
+
+  it("should detect moved members", () => {
+    const actual = diff({ old: { deep: true } }, { renamed: { deep: true } });
+
+    expect(actual).toStrictEqual([
+      { op: "move", from: "/old", path: "/renamed" },
+    ]);
+  });
+
+  it("should detect copies of unchanged values", () => {
+    const actual = diff(
+      { defaults: { retries: 3 } },
+      { defaults: { retries: 3 }, user: { retries: 3 } }
+    );
+
+    expect(actual).toStrictEqual([
+      { op: "copy", from: "/defaults", path: "/user" },
+    ]);
+  });
+
+  it("should emit tests before destructive operations when asked", () => {
+    const actual = diff({ a: 1, b: 2 }, { a: 2 }, { emitTests: true });
+
+    expect(actual).toStrictEqual([
+      { op: "test", path: "/a", value: 1 },
+      { op: "replace", path: "/a", value: 2 },
+      { op: "test", path: "/b", value: 2 },
+      { op: "remove", path: "/b" },
+    ]);
+  });
+
+  it("should treat members named after Object.prototype like any other", () => {
+    expect(diff({ toString: 2 }, {})).toStrictEqual([
+      { op: "remove", path: "/toString" },
+    ]);
+    expect(diff({}, { constructor: 2 })).toStrictEqual([
+      { op: "add", path: "/constructor", value: 2 },
+    ]);
+  });
+
+  it("should produce patches that turn the source into the target", () => {
+    const source = {
+      name: "config",
+      servers: [{ host: "a", port: 1 }, { host: "b" }],
+      flags: { beta: true, legacy: false },
+      owner: { id: 1 },
+    };
+    const target = {
+      name: "config",
+      servers: [{ host: "a", port: 2 }],
+      flags: { beta: true, experimental: false },
+      admin: { id: 1 },
+      backup: { host: "a", port: 2 },
+      "a/b": null,
+    };
+
+    const patch = diff(source, target, { emitTests: true });
+
+    expect(applyPatch(source, patch)).toStrictEqual(target);
+  });
+});
+
+describe("applyPatch", () => {
+  it("should apply every kind of operation without changing the input", () => {
+    const document = { a: { b: 1 }, list: [1, 2] };
+    const patch: Operation[] = [
+      { op: "test", path: "/a/b", value: 1 },
+      { op: "add", path: "/list/-", value: 3 },
+      { op: "add", path: "/list/0", value: 0 },
+      { op: "replace", path: "/a/b", value: 2 },
+      { op: "copy", from: "/a", path: "/c" },
+      { op: "move", from: "/list", path: "/a/list" },
+      { op: "remove", path: "/c/b" },
+    ];
+
+    const actual = applyPatch(document, patch);
+
+    expect(actual).toStrictEqual({ a: { b: 2, list: [0, 1, 2, 3] }, c: {} });
+    expect(document).toStrictEqual({ a: { b: 1 }, list: [1, 2] });
+  });
+
+  it("should replace the whole document at the root pointer", () => {
+    const actual = applyPatch({ a: 1 }, [
+      { op: "replace", path: "", value: [] },
+    ]);
+
+    expect(actual).toStrictEqual([]);
+  });
+
+  it("should report the failing operation and path", () => {
+    const patch: Operation[] = [
+      { op: "add", path: "/a", value: 1 },
+      { op: "remove", path: "/missing/child" },
+    ];
+
+    let error: unknown;
+    try {
+      applyPatch({}, patch);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect((error as JsonPatchError).index).toBe(1);
+    expect((error as JsonPatchError).path).toBe("/missing/child");
+  });
+
+  it("should not reach Object.prototype through a pointer", () => {
+    expect(() =>
+      applyPatch({}, [{ op: "add", path: "/__proto__/polluted", value: "yes" }])
+    ).toThrow(
+      'Operation 0 failed at "/__proto__/polluted": path does not exist'
+    );
+    expect(() => applyPatch({}, [{ op: "remove", path: "/toString" }])).toThrow(
+      "path does not exist"
+    );
+
+    const result = applyPatch<Record<string, unknown>>({}, [
+      { op: "add", path: "/__proto__", value: { polluted: "yes" } },
+    ]);
+
+    expect(Object.keys(result)).toStrictEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("should fail a test operation whose value differs", () => {
+    expect(() =>
+      applyPatch({ a: { x: 1 } }, [{ op: "test", path: "/a", value: { x: 2 } }])
+    ).toThrow('Operation 0 failed at "/a": expected {"x":2} but found {"x":1}');
+  });
+
+  it("should validate array indices", () => {
+    expect(() =>
+      applyPatch([1], [{ op: "add", path: "/5", value: 1 }])
+    ).toThrow("index 5 is out of bounds");
+    expect(() => applyPatch([1], [{ op: "remove", path: "/01" }])).toThrow(
+      '"01" is not an array index'
+    );
+  });
+
+  it("should reject malformed operations", () => {
+    const patch = [
+      { op: "add", path: "/a" },
+      { op: "frobnicate", path: "" },
+    ];
+
+    expect(() => applyPatch({}, patch as Operation[])).toThrow(
+      "add requires a value"
+    );
+    expect(() => applyPatch({}, patch.slice(1) as Operation[])).toThrow(
+      'unknown op "frobnicate"'
+    );
+  });
+
+  it("should refuse to move a value into its own child", () => {
+    expect(() =>
+      applyPatch({ a: { b: {} } }, [{ op: "move", from: "/a", path: "/a/b/c" }])
+    ).toThrow('cannot move "/a" into itself');
+  });
+});
@@ -0,0 +1,181 @@
+import { resolve } from "path";
+import {
+  deletePath,
+  formatPath,
+  getPath,
+  hasPath,
+  parsePath,
+  PathError,
+  Paths,
+  setPath,
+} from "../src/object-path";
+import { checkSources } from "../src/type-check";
+
+type Fixture = {
+  z: string;
+  j: { c: { x: string; w: string }; b: string };
+  items: { name: string; tags?: string[] }[];
+  "a.b": { "c\\d": number };
+  maybe?: { value: number };
+};
+
+const fixture: Fixture = {
+  z: "z",
+  j: { c: { x: "x", w: "w" }, b: "b" },
+  items: [{ name: "Bob", tags: ["admin"] }, { name: "Jill" }],
+  "a.b": { "c\\d": 1 },
+};
+
+describe("parsePath and formatPath", () => {
+  it("should split on unescaped dots", () => {
+    expect(parsePath("j.c.x")).toStrictEqual(["j", "c", "x"]);
+    expect(parsePath("a\\.b.c\\\\d")).toStrictEqual(["a.b", "c\\d"]);
+    expect(parsePath("")).toStrictEqual([""]);
+    expect(() => parsePath("a\\")).toThrow(PathError);
+  });
+
+  it("should escape what parsePath unescapes", () => {
+    const segments = ["a.b", "c\\d", "0"];
+
+    expect(parsePath(formatPath(segments))).toStrictEqual(segments);
+  });
+});
+
+describe("getPath and hasPath", () => {
+  it("should read nested values, array elements and escaped keys", () => {
+    expect(getPath(fixture, "j.c.x")).toBe("x");
+    expect(getPath(fixture, "items.0.name")).toBe("Bob");
+    expect(getPath(fixture, "items.0.tags.0")).toBe("admin");
+    expect(getPath(fixture, "a\\.b.c\\\\d")).toBe(1);
+    expect(getPath(fixture, "j.c")).toBe(fixture.j.c);
+  });
+
+  it("should give undefined for missing values", () => {
+    expect(getPath(fixture, "maybe.value")).toBeUndefined();
+    expect(getPath(fixture, "items.5.name")).toBeUndefined();
+    expect(getPath(fixture, "items.1.tags.0")).toBeUndefined();
+  });
+
+  it("should tell whether a path exists", () => {
+    expect(hasPath(fixture, "items.1.name")).toBe(true);
+    expect(hasPath(fixture, "items.1.tags")).toBe(false);
+    expect(hasPath(fixture, "maybe")).toBe(false);
+    expect(hasPath({ gone: undefined }, "gone")).toBe(true);
+  });
+
+  it("should only accept valid paths", () => {
+    // @ts-expect-error "j.c.y" is not a path of the fixture
+    expect(getPath(fixture, "j.c.y")).toBeUndefined();
+    // @ts-expect-error an escaped key must be escaped in the path
+    expect(getPath(fixture, "a.b")).toBeUndefined();
+    // @ts-expect-error array elements are addressed by index
+    expect(hasPath(fixture, "items.first")).toBe(false);
+
+    const paths: Paths<{ a: { b: number[] } }>[] = ["a", "a.b", "a.b.3"];
+    expect(paths).toHaveLength(3);
+  });
+
+  it("should infer the type at the path", () => {
+    const actual = checkSources({
+      [resolve(__dirname, "snippet.ts")]: [
+        'import { getPath } from "../src/object-path";',
+        'import { expectType } from "../src/type-check";',
+        "declare const fixture: {",
+        "  j: { c: { x: string } };",
+        "  items: { name: string; age?: number }[];",
+        "  maybe?: { value: number };",
+        "};",
+        'expectType<string>(getPath(fixture, "j.c.x"));',
+        'expectType<{ x: string; }>(getPath(fixture, "j.c"));',
+        'expectType<string>(getPath(fixture, "items.0.name"));',
+        'expectType<number | undefined>(getPath(fixture, "items.0.age"));',
+        'expectType<number | undefined>(getPath(fixture, "maybe.value"));',
+      ].join("\n"),
+    });
+
+    expect(actual).toStrictEqual([]);
+  });
+});
+
+describe("setPath", () => {
+  it("should copy only the objects along the path", () => {
+    const actual = setPath(fixture, "j.c.x", "changed");
+
+    expect(actual.j.c).toStrictEqual({ x: "changed", w: "w" });
+    expect(fixture.j.c.x).toBe("x");
+    expect(actual).not.toBe(fixture);
+    expect(actual.j).not.toBe(fixture.j);
+    expect(actual.items).toBe(fixture.items);
+    expect(actual["a.b"]).toBe(fixture["a.b"]);
+  });
+
+  it("should set array elements and escaped keys", () => {
+    const actual = setPath(fixture, "items.1.name", "Sally");
+
+    expect(actual.items.map(({ name }) => name)).toStrictEqual([
+      "Bob",
+      "Sally",
+    ]);
+    expect(Array.isArray(actual.items)).toBe(true);
+    expect(actual.items[0]).toBe(fixture.items[0]);
+    expect(setPath(fixture, "a\\.b.c\\\\d", 2)["a.b"]).toStrictEqual({
+      "c\\d": 2,
+    });
+  });
+
+  it("should create missing objects and arrays", () => {
+    expect(setPath(fixture, "maybe.value", 3).maybe).toStrictEqual({
+      value: 3,
+    });
+    expect(setPath(fixture, "items.1.tags.0", "new").items[1]).toStrictEqual({
+      name: "Jill",
+      tags: ["new"],
+    });
+  });
+
+  it("should keep class instances", () => {
+    class Box {
+      content = { size: 1 };
+    }
+    const actual = setPath({ box: new Box() }, "box.content.size", 2);
+
+    expect(actual.box).toBeInstanceOf(Box);
+    expect(actual.box.content.size).toBe(2);
+  });
+
+  it("should refuse paths into primitives and prototypes", () => {
+    const loose: Record<string, any> = { n: 1 };
+
+    expect(() => setPath(loose, "n.x", 1)).toThrow(
+      new PathError("n.x", 'Cannot set "x" on a number')
+    );
+    expect(() => setPath(loose, "__proto__.polluted", true)).toThrow(PathError);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("should check the type of the new value", () => {
+    // @ts-expect-error j.c.x holds a string
+    setPath(fixture, "j.c.x", 42);
+  });
+});
+
+describe("deletePath", () => {
+  it("should remove a property from a copy", () => {
+    const actual = deletePath(fixture, "j.c.w");
+
+    expect(actual.j.c).toStrictEqual({ x: "x" });
+    expect(fixture.j.c).toStrictEqual({ x: "x", w: "w" });
+    expect(actual.items).toBe(fixture.items);
+  });
+
+  it("should remove array elements and move the rest up", () => {
+    const actual = deletePath(fixture, "items.0");
+
+    expect(actual.items).toStrictEqual([{ name: "Jill" }]);
+  });
+
+  it("should return the object itself when there is nothing to delete", () => {
+    expect(deletePath(fixture, "maybe.value")).toBe(fixture);
+    expect(deletePath(fixture, "items.9.name")).toBe(fixture);
+  });
+});
@@ -0,0 +1,50 @@
+import * as option from "../src/option";
+import { none, Option, some } from "../src/option";
+import { err, ok } from "../src/result";
+import { expectType } from "../src/type-check";
+
+describe("Option", () => {
+  it("should wrap nullable values", () => {
+    expect(option.fromNullable(0)).toStrictEqual(some(0));
+    expect(option.fromNullable("")).toStrictEqual(some(""));
+    expect(option.fromNullable(null)).toBe(none);
+    expect(option.fromNullable(undefined)).toBe(none);
+  });
+
+  it("should narrow on some", () => {
+    const name: Option<string> = option.fromNullable(
+      ["Bob"].find((n) => n.startsWith("B"))
+    );
+
+    // @ts-expect-error the value is only there once some is checked
+    expect(name.value).toBe("Bob");
+    if (name.some) {
+      expectType<string>(name.value);
+    }
+    expect(option.isSome(name)).toBe(true);
+    expect(option.isNone(none)).toBe(true);
+  });
+
+  it("should map, chain and filter", () => {
+    const half = (n: number): Option<number> =>
+      n % 2 === 0 ? some(n / 2) : none;
+
+    expect(option.map(some(2), (n) => n * 10)).toStrictEqual(some(20));
+    expect(option.map(none, (n: number) => n * 10)).toBe(none);
+    expect(option.flatMap(some(8), half)).toStrictEqual(some(4));
+    expect(option.flatMap(some(3), half)).toBe(none);
+    expect(option.filter(some(3), (n) => n > 2)).toStrictEqual(some(3));
+    expect(option.filter(some(1), (n) => n > 2)).toBe(none);
+  });
+
+  it("should get the value out", () => {
+    expect(option.unwrapOr(none, "default")).toBe("default");
+    expect(option.toNullable(some(1))).toBe(1);
+    expect(option.toNullable(none)).toBeUndefined();
+    expect(
+      option.match(some("Bob"), { some: (n) => `Hi ${n}`, none: () => "Hi" })
+    ).toBe("Hi Bob");
+    expect(option.okOr(some(1), "missing")).toStrictEqual(ok(1));
+    expect(option.okOr(none, "missing")).toStrictEqual(err("missing"));
+  });
+});
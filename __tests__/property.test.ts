@@ -0,0 +1,143 @@
+import {
+  array,
+  check,
+  constant,
+  forAll,
+  frequency,
+  integer,
+  json,
+  oneOf,
+  PropertyError,
+  record,
+  string,
+  tuple,
+} from "../src/property";
+
+function samples<T>(
+  arbitrary: Parameters<typeof check<T>>[0],
+  seed: number
+): T[] {
+  const values: T[] = [];
+  check(arbitrary, (value) => void values.push(value), { seed, runs: 20 });
+  return values;
+}
+
+function depth(value: unknown): number {
+  if (value === null || typeof value !== "object") {
+    return 0;
+  }
+  return 1 + Math.max(0, ...Object.values(value).map(depth));
+}
+
+describe("generators", () => {
+  it("should generate the same values for the same seed", () => {
+    const arbitrary = tuple(integer(), string(), array(integer()));
+
+    expect(samples(arbitrary, 42)).toStrictEqual(samples(arbitrary, 42));
+    expect(samples(arbitrary, 42)).not.toStrictEqual(samples(arbitrary, 43));
+  });
+
+  it("should respect bounds and lengths", () => {
+    forAll(
+      tuple(
+        integer({ min: -3, max: 3 }),
+        array(integer(), { minLength: 2, maxLength: 4 }),
+        string({ alphabet: "ab", maxLength: 3 })
+      ),
+      ([n, items, text]) =>
+        n >= -3 &&
+        n <= 3 &&
+        items.length >= 2 &&
+        items.length <= 4 &&
+        /^[ab]{0,3}$/.test(text)
+    );
+  });
+
+  it("should weigh the choices of frequency", () => {
+    const values = samples(
+      frequency([9, constant("often")], [1, constant("rarely")]),
+      7
+    );
+    const often = values.filter((value) => value === "often").length;
+
+    expect(often).toBeGreaterThan(values.length / 2);
+  });
+
+  it("should generate records and nested objects", () => {
+    const values = samples(json(3), 1);
+
+    expect(values.some((value) => depth(value) >= 2)).toBe(true);
+    forAll(record(integer()), (value) =>
+      Object.values(value).every(Number.isSafeInteger)
+    );
+  });
+});
+
+describe("check", () => {
+  it("should pass when every run passes", () => {
+    const actual = check(integer(), (n) => n === n, { seed: 1, runs: 50 });
+
+    expect(actual).toStrictEqual({ ok: true, seed: 1, runs: 50 });
+  });
+
+  it("should shrink integers to the smallest counterexample", () => {
+    const actual = check(integer(), (n) => n < 100, { seed: 3 });
+
+    expect(actual).toMatchObject({ ok: false, counterexample: 100 });
+  });
+
+  it("should shrink arrays by removing and shrinking elements", () => {
+    const actual = check(
+      array(integer({ min: 0, max: 1000 })),
+      (items) => items.every((item) => item <= 5),
+      { seed: 5 }
+    );
+
+    expect(actual).toMatchObject({ ok: false, counterexample: [6] });
+  });
+
+  it("should shrink through map and oneOf", () => {
+    const actual = check(
+      oneOf(constant("nothing"), string()),
+      (text) => !text.includes("z"),
+      { seed: 11 }
+    );
+
+    expect(actual).toMatchObject({ ok: false, counterexample: "z" });
+  });
+
+  it("should treat a throwing predicate as a failure", () => {
+    const actual = check(
+      integer({ min: 0, max: 10 }),
+      (n) => expect(n).toBeLessThan(5),
+      { seed: 2 }
+    );
+
+    expect(actual).toMatchObject({ ok: false, counterexample: 5 });
+  });
+});
+
+describe("forAll", () => {
+  it("should report a replayable seed and the shrunk counterexample", () => {
+    const property = (seed?: number) =>
+      forAll(tuple(integer(), integer()), ([x, y]) => x <= y, { seed });
+
+    let error: unknown;
+    try {
+      property();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PropertyError);
+    const { seed, counterexample, message } = error as PropertyError<
+      [number, number]
+    >;
+    expect(message).toContain(`replay with { seed: ${seed} }`);
+    expect(() => property(seed)).toThrow(message);
+    expect([
+      [1, 0],
+      [0, -1],
+    ]).toContainEqual(counterexample);
+  });
+});
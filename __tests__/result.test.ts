@@ -0,0 +1,97 @@
+import * as result from "../src/result";
+import { err, ok, Result } from "../src/result";
+import { expectType } from "../src/type-check";
+
+function parseAge(text: string): Result<number, string> {
+  const age = Number(text);
+  return Number.isInteger(age) && age >= 0
+    ? ok(age)
+    : err(`"${text}" is not an age`);
+}
+
+describe("Result", () => {
+  it("should narrow on ok", () => {
+    const parsed = parseAge("42");
+
+    // @ts-expect-error the value is only there once ok is checked
+    expect(parsed.value).toBe(42);
+    if (parsed.ok) {
+      expectType<number>(parsed.value);
+      expect(parsed.value).toBe(42);
+    } else {
+      expectType<string>(parsed.error);
+    }
+    expect(result.isErr(parseAge("x"))).toBe(true);
+  });
+
+  it("should map values and errors", () => {
+    expect(result.map(parseAge("41"), (age) => age + 1)).toStrictEqual(ok(42));
+    expect(result.map(parseAge("x"), (age) => age + 1)).toStrictEqual(
+      err('"x" is not an age')
+    );
+    expect(
+      result.mapErr(parseAge("x"), (message) => message.toUpperCase())
+    ).toStrictEqual(err('"X" IS NOT AN AGE'));
+  });
+
+  it("should chain computations that can fail", () => {
+    const adult = (age: number): Result<number, Error> =>
+      age >= 18 ? ok(age) : err(new Error("too young"));
+
+    expect(result.flatMap(parseAge("30"), adult)).toStrictEqual(ok(30));
+    expect(result.flatMap(parseAge("12"), adult)).toStrictEqual(
+      err(new Error("too young"))
+    );
+    expect(result.flatMap(parseAge("x"), adult)).toStrictEqual(
+      err('"x" is not an age')
+    );
+  });
+
+  it("should unwrap with a fallback or match both cases", () => {
+    expect(result.unwrapOr(parseAge("x"), 0)).toBe(0);
+    expect(
+      result.match(parseAge("7"), {
+        ok: (age) => `age ${age}`,
+        err: (message) => message,
+      })
+    ).toBe("age 7");
+  });
+
+  it("should catch exceptions", () => {
+    expect(result.tryCatch(() => JSON.parse("[1]"))).toStrictEqual(ok([1]));
+
+    const actual = result.tryCatch(
+      () => JSON.parse("{"),
+      (thrown) => (thrown as Error).name
+    );
+
+    expect(actual).toStrictEqual(err("SyntaxError"));
+  });
+
+  it("should turn promises into results", async () => {
+    expect(await result.fromPromise(Promise.resolve(1))).toStrictEqual(ok(1));
+    expect(
+      await result.fromPromise(Promise.reject(new Error("no")), String)
+    ).toStrictEqual(err("Error: no"));
+  });
+
+  it("should collect all values or the first error", () => {
+    const actual = result.all([ok(1), ok("a"), ok(true)]);
+
+    expectType<Result<[number, string, boolean], never>>(actual);
+    expect(actual).toStrictEqual(ok([1, "a", true]));
+    expect(result.all(["1", "x", "y"].map(parseAge))).toStrictEqual(
+      err('"x" is not an age')
+    );
+    expect(result.all([])).toStrictEqual(ok([]));
+  });
+
+  it("should partition values and errors", () => {
+    const actual = result.partition(["1", "x", "3"].map(parseAge));
+
+    expect(actual).toStrictEqual({
+      values: [1, 3],
+      errors: ['"x" is not an age'],
+    });
+  });
+});
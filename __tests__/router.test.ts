@@ -0,0 +1,124 @@
+import { request as httpRequest, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { PathParams, Router } from "../src/router";
+
+type Reply = { status: number; headers: IncomingHttpHeaders; body: string };
+
+function request(server: Server, method: string, path: string): Promise<Reply> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = httpRequest({ port, method, path }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () =>
+        resolve({ status: res.statusCode ?? 0, headers: res.headers, body })
+      );
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("Router", () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    const router = new Router()
+      .get("/users/:id", ({ params }) => ({ body: { id: params.id } }))
+      .delete("/users/:id", () => ({ status: 204 }))
+      .get("/users/:userId/posts/:postId", ({ params, url }) => ({
+        body: `${params.userId}/${params.postId}?${url.searchParams.get("q")}`,
+      }))
+      .post("/echo", ({ response }) => {
+        response.writeHead(201, { "content-type": "text/plain" });
+        response.end("written directly");
+      })
+      .get("/empty", () => undefined)
+      .get("/boom", () => {
+        throw new Error("boom");
+      });
+    server = router.createServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should pass typed path parameters to the handler", async () => {
+    const actual = await request(server, "GET", "/users/42");
+
+    expect(actual.status).toBe(200);
+    expect(actual.headers["content-type"]).toMatch(/^application\/json/);
+    expect(JSON.parse(actual.body)).toStrictEqual({ id: "42" });
+  });
+
+  it("should decode parameters and expose the query string", async () => {
+    const actual = await request(server, "GET", "/users/a%20b/posts/7?q=yo");
+
+    expect(actual.body).toBe("a b/7?yo");
+  });
+
+  it("should read a target starting with // as a path", async () => {
+    const actual = await request(server, "GET", "//users/42");
+
+    expect(JSON.parse(actual.body)).toStrictEqual({ id: "42" });
+  });
+
+  it("should let handlers write the response themselves", async () => {
+    const actual = await request(server, "POST", "/echo");
+
+    expect(actual.status).toBe(201);
+    expect(actual.body).toBe("written directly");
+  });
+
+  it("should answer 204 when a handler returns nothing", async () => {
+    const actual = await request(server, "GET", "/empty");
+
+    expect(actual.status).toBe(204);
+  });
+
+  it("should answer 404 for unknown paths", async () => {
+    const actual = await request(server, "GET", "/nope");
+
+    expect(actual.status).toBe(404);
+  });
+
+  it("should answer 405 with an Allow header for unsupported methods", async () => {
+    const actual = await request(server, "PUT", "/users/42");
+
+    expect(actual.status).toBe(405);
+    expect(actual.headers.allow).toBe("DELETE, GET, HEAD");
+  });
+
+  it("should answer HEAD requests with the GET route and no body", async () => {
+    const actual = await request(server, "HEAD", "/users/42");
+
+    expect(actual.status).toBe(200);
+    expect(actual.headers["content-length"]).toBe("11");
+    expect(actual.body).toBe("");
+  });
+
+  it("should answer 400 for malformed parameters and 500 for errors", async () => {
+    expect((await request(server, "GET", "/users/%E0%A4%A")).status).toBe(400);
+    expect((await request(server, "GET", "*")).status).toBe(400);
+    expect((await request(server, "GET", "/boom")).status).toBe(500);
+  });
+
+  it("should infer parameter names from the template", () => {
+    const params: PathParams<"/users/:userId/posts/:postId"> = {
+      userId: "1",
+      postId: "2",
+    };
+    const none: PathParams<"/health"> = {};
+
+    // @ts-expect-error "FETCH" is not a method
+    new Router().route("FETCH", "/", () => undefined);
+    // @ts-expect-error "ID" is not a parameter of "/users/:id"
+    new Router().get("/users/:id", ({ params }) => ({ body: params.ID }));
+
+    expect(params).toStrictEqual({ userId: "1", postId: "2" });
+    expect(none).toStrictEqual({});
+  });
+});
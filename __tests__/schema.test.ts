@@ -0,0 +1,175 @@
+import {
+  array,
+  boolean,
+  Infer,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  SchemaError,
+  string,
+  tuple,
+  union,
+} from "../src/schema";
+
+const UserSchema = object({ name: string(), id: number() });
+const PointSchema = object({ x: number(), y: number() });
+
+describe("schema", () => {
+  it("should parse a valid user and infer its type", () => {
+    const user: Infer<typeof UserSchema> = UserSchema.parse({
+      name: "Bob",
+      id: 1,
+    });
+
+    expect(user).toStrictEqual({ name: "Bob", id: 1 });
+  });
+
+  it("should reject an id given as a string", () => {
+    const actual = UserSchema.safeParse({ name: "Bob", id: "1" });
+
+    expect(actual).toStrictEqual({
+      success: false,
+      issues: [{ path: ["id"], message: "Expected number, received string" }],
+    });
+  });
+
+  it("should report every error with its path", () => {
+    const TeamSchema = object({
+      name: string(),
+      members: array(UserSchema),
+    });
+
+    const actual = TeamSchema.safeParse({
+      members: [{ name: "Bob", id: 1 }, { name: 2 }],
+    });
+
+    expect(actual.success).toBe(false);
+    expect(!actual.success && actual.issues).toStrictEqual([
+      { path: ["name"], message: "Expected string, received undefined" },
+      {
+        path: ["members", 1, "name"],
+        message: "Expected string, received number",
+      },
+      {
+        path: ["members", 1, "id"],
+        message: "Expected number, received undefined",
+      },
+    ]);
+  });
+
+  it("should throw a SchemaError listing the issues from parse", () => {
+    expect(() => UserSchema.parse(null)).toThrow(SchemaError);
+    expect(() => UserSchema.parse({ name: "Bob", id: "1" })).toThrow(
+      "id: Expected number, received string"
+    );
+  });
+
+  it("should drop extra keys unless strict", () => {
+    const point3 = { x: 12, y: 26, z: 100 };
+
+    expect(PointSchema.parse(point3)).toStrictEqual({ x: 12, y: 26 });
+    expect(PointSchema.strict().safeParse(point3)).toStrictEqual({
+      success: false,
+      issues: [{ path: ["z"], message: "Unexpected key" }],
+    });
+    expect(
+      object({ x: number() }, { strict: true }).safeParse({ x: 1 }).success
+    ).toBe(true);
+  });
+
+  it("should report extra keys named after Object.prototype members", () => {
+    expect(
+      PointSchema.strict().safeParse({
+        x: 1,
+        y: 2,
+        toString: 3,
+        constructor: 4,
+      })
+    ).toStrictEqual({
+      success: false,
+      issues: [
+        { path: ["toString"], message: "Unexpected key" },
+        { path: ["constructor"], message: "Unexpected key" },
+      ],
+    });
+  });
+
+  it("should support optional keys", () => {
+    const NameSchema = object({
+      firstName: string(),
+      lastName: optional(string()),
+      nickname: string().optional(),
+    });
+    const name: Infer<typeof NameSchema> = { firstName: "Bob" };
+
+    expect(NameSchema.parse(name)).toStrictEqual({ firstName: "Bob" });
+    expect(
+      NameSchema.safeParse({ firstName: "Bob", lastName: 1 }).success
+    ).toBe(false);
+  });
+
+  it("should check literals and unions", () => {
+    const MethodSchema = union(literal("GET"), literal("POST"));
+    const method: "GET" | "POST" = MethodSchema.parse("GET");
+
+    expect(method).toBe("GET");
+    expect(MethodSchema.safeParse("PUT")).toStrictEqual({
+      success: false,
+      issues: [
+        { path: [], message: 'Expected "GET" | "POST", received string' },
+      ],
+    });
+    expect(literal("GET").safeParse("PUT")).toStrictEqual({
+      success: false,
+      issues: [{ path: [], message: 'Expected "GET", received "PUT"' }],
+    });
+  });
+
+  it("should check records like index signatures", () => {
+    const NumberDictionary = record(number());
+
+    expect(NumberDictionary.parse({ length: 1, width: 2 })).toStrictEqual({
+      length: 1,
+      width: 2,
+    });
+    expect(NumberDictionary.safeParse({ length: 1, name: "yo" })).toStrictEqual(
+      {
+        success: false,
+        issues: [
+          { path: ["name"], message: "Expected number, received string" },
+        ],
+      }
+    );
+  });
+
+  it("should keep a __proto__ key as an entry of a record", () => {
+    const input = JSON.parse('{"__proto__": 1, "width": 2}');
+
+    const output = record(number()).parse(input);
+
+    expect(Object.keys(output)).toStrictEqual(["__proto__", "width"]);
+    expect(Object.getPrototypeOf(output)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(output, "__proto__")?.value).toBe(1);
+  });
+
+  it("should check tuples", () => {
+    const Entry = tuple(string(), number(), boolean());
+    const entry: [string, number, boolean] = Entry.parse(["a", 1, true]);
+
+    expect(entry).toStrictEqual(["a", 1, true]);
+    expect(Entry.safeParse(["a", 1])).toStrictEqual({
+      success: false,
+      issues: [{ path: [], message: "Expected 3 items, received 2" }],
+    });
+    expect(Entry.safeParse(["a", "1", true])).toStrictEqual({
+      success: false,
+      issues: [{ path: [1], message: "Expected number, received string" }],
+    });
+  });
+
+  it("should reject NaN as a number", () => {
+    expect(number().safeParse(NaN).success).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { range } from "../src/fizzbuzz";
+import { AsyncSeq, seq, Seq } from "../src/seq";
+
+function* naturals(): Generator<number> {
+  let n = 1;
+  for (;;) {
+    yield n++;
+  }
+}
+
+async function* delayed<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    yield item;
+  }
+}
+
+describe("Seq", () => {
+  it("should map, filter and join like the lesson helpers", () => {
+    const actual = seq([1, 2, 3, 4, 5, 6, 7, 8])
+      .filter((item) => item % 2 === 0)
+      .map((item) => item * 2)
+      .join(" ");
+
+    expect(actual).toBe("4 8 12 16");
+  });
+
+  it("should work on infinite sources", () => {
+    const actual = seq(naturals())
+      .filter((n) => n % 7 === 0)
+      .take(3)
+      .toArray();
+
+    expect(actual).toStrictEqual([7, 14, 21]);
+  });
+
+  it("should only pull the values it needs", () => {
+    const seen: number[] = [];
+
+    const actual = seq(naturals())
+      .map((n) => {
+        seen.push(n);
+        return n * 10;
+      })
+      .take(2)
+      .toArray();
+
+    expect(actual).toStrictEqual([10, 20]);
+    expect(seen).toStrictEqual([1, 2]);
+  });
+
+  it("should narrow types with a type guard filter", () => {
+    const mixed: (string | number | null)[] = ["a", 1, null, "b"];
+
+    const actual: Seq<string> = seq(mixed).filter(
+      (item): item is string => typeof item === "string"
+    );
+
+    expect(actual.map((item) => item.toUpperCase()).toArray()).toStrictEqual([
+      "A",
+      "B",
+    ]);
+  });
+
+  it("should flatMap, chunk and reduce", () => {
+    const words = seq(["ab", "cde"]).flatMap((word) => word);
+
+    expect(words.chunk(2).toArray()).toStrictEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e"],
+    ]);
+    expect(words.reduce((count, _, index) => count + index, 0)).toBe(10);
+    expect(() => words.chunk(0)).toThrow(RangeError);
+  });
+
+  it("should zip up to the shortest source", () => {
+    const actual: [number, string, boolean][] = seq(naturals())
+      .zip(["a", "b", "c"], [true, false])
+      .toArray();
+
+    expect(actual).toStrictEqual([
+      [1, "a", true],
+      [2, "b", false],
+    ]);
+  });
+
+  it("should be iterable more than once", () => {
+    const evens = seq([1, 2, 3, 4]).filter((n) => n % 2 === 0);
+
+    expect([...evens]).toStrictEqual([2, 4]);
+    expect([...evens]).toStrictEqual([2, 4]);
+  });
+
+  it("should play a long FizzBuzz range without building an array", () => {
+    const actual = seq(range({ start: 1, end: Number.MAX_SAFE_INTEGER }))
+      .filter((n) => n % 15 === 0)
+      .take(3)
+      .join();
+
+    expect(actual).toBe("15,30,45");
+  });
+});
+
+describe("AsyncSeq", () => {
+  it("should be created from an async iterable", async () => {
+    const actual = seq(delayed([1, 2, 3]));
+
+    expect(actual).toBeInstanceOf(AsyncSeq);
+    expect(await actual.toArray()).toStrictEqual([1, 2, 3]);
+  });
+
+  it("should accept async callbacks", async () => {
+    const actual = await seq(delayed([1, 2, 3, 4]))
+      .map(async (n) => n * 3)
+      .filter(async (n) => n % 2 === 0)
+      .join("-");
+
+    expect(actual).toBe("6-12");
+  });
+
+  it("should flatMap, take, chunk and reduce", async () => {
+    // An async generator can only be consumed once, so build a fresh one.
+    const letters = () =>
+      seq(delayed(["ab", "cd"])).flatMap((word) => delayed([...word]));
+
+    expect(await letters().take(3).chunk(2).toArray()).toStrictEqual([
+      ["a", "b"],
+      ["c"],
+    ]);
+    expect(await letters().reduce((all, letter) => all + letter, "")).toBe(
+      "abcd"
+    );
+  });
+
+  it("should zip async and sync sources", async () => {
+    const actual = await seq(delayed(["a", "b", "c"]))
+      .zip([1, 2], delayed([true, false, true]))
+      .toArray();
+
+    expect(actual).toStrictEqual([
+      ["a", 1, true],
+      ["b", 2, false],
+    ]);
+  });
+
+  it("should stop an infinite source after take", async () => {
+    const actual = await seq(naturals()).toAsync().take(2).toArray();
+
+    expect(actual).toStrictEqual([1, 2]);
+  });
+
+  it("should join an empty sequence to an empty string", async () => {
+    expect(await seq(delayed<string>([])).join()).toBe("");
+  });
+});
@@ -0,0 +1,207 @@
+import { findUnsorted, sortMembers } from "../src/sort-members";
+
+const lines = (...source: string[]) => source.join("\n");
+
+describe("sortMembers", () => {
+  it("should sort object literal keys and keep the formatting", () => {
+    const source = lines(
+      "const objectWithUnorderedKeys = {",
+      "  zebra: 1,",
+      '  "apple": [3, 2, 1],',
+      "",
+      "  mango() {",
+      "    return 2;",
+      "  },",
+      "};"
+    );
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(
+      lines(
+        "const objectWithUnorderedKeys = {",
+        '  "apple": [3, 2, 1],',
+        "  mango() {",
+        "    return 2;",
+        "  },",
+        "",
+        "  zebra: 1,",
+        "};"
+      )
+    );
+  });
+
+  it("should keep comments attached to their members", () => {
+    const source = lines(
+      "const config = { // settings",
+      "  // how long to wait",
+      "  /* in ms */ timeout: 10, // short",
+      "  // where to go",
+      "  host: 'localhost' // the default",
+      "};"
+    );
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(
+      lines(
+        "const config = { // settings",
+        "  // where to go",
+        "  host: 'localhost', // the default",
+        "  // how long to wait",
+        "  /* in ms */ timeout: 10 // short",
+        "};"
+      )
+    );
+  });
+
+  it("should break the line after a trailing comment that moves", () => {
+    const source = lines("const order = { b: 1, a: 2 // note", "};");
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(lines("const order = { a: 2, // note", "b: 1", "};"));
+  });
+
+  it("should attach a comment to the member after it on the same line", () => {
+    expect(
+      sortMembers("const order = { b: 1, /* x */ a: 2 };", "file.ts")
+    ).toBe("const order = { /* x */ a: 2, b: 1 };");
+    expect(
+      sortMembers("interface Order { b: 1; /* x */ a: 2 }", "file.ts")
+    ).toBe("interface Order { /* x */ a: 2; b: 1 }");
+  });
+
+  it("should sort single-line lists and interfaces", () => {
+    const source = lines(
+      "interface User {",
+      "  name: string;",
+      "  id: number; // unique",
+      "  email?: string",
+      "}",
+      "const point = { y: 2, x: 1 };"
+    );
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(
+      lines(
+        "interface User {",
+        "  email?: string;",
+        "  id: number; // unique",
+        "  name: string",
+        "}",
+        "const point = { x: 1, y: 2 };"
+      )
+    );
+  });
+
+  it("should not move members across spreads, computed keys and index signatures", () => {
+    const source = lines(
+      "const merged = { b: 1, a: 2, ...defaults, d: 3, [key]: 0, c: 4 };",
+      "interface Dictionary {",
+      "  z: number;",
+      "  [key: string]: number;",
+      "  y: number;",
+      "  x: number;",
+      "}"
+    );
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(
+      lines(
+        "const merged = { a: 2, b: 1, ...defaults, d: 3, [key]: 0, c: 4 };",
+        "interface Dictionary {",
+        "  z: number;",
+        "  [key: string]: number;",
+        "  x: number;",
+        "  y: number;",
+        "}"
+      )
+    );
+  });
+
+  it("should sort nested objects", () => {
+    const source = "const nested = { b: { d: 1, c: { f: 1, e: 2 } }, a: 0 };";
+
+    const actual = sortMembers(source, "file.ts");
+
+    expect(actual).toBe(
+      "const nested = { a: 0, b: { c: { e: 2, f: 1 }, d: 1 } };"
+    );
+  });
+
+  it("should only sort marked lists when asked to", () => {
+    const source = lines(
+      "const free = { b: 1, a: 2 };",
+      "// @sorted",
+      "const colors = { red: 1, blue: 2, inner: { y: 1, x: 2 } };",
+      "const outer = {",
+      "  b: 1,",
+      "  // @sorted",
+      "  a: { z: 1, y: 2 },",
+      "};"
+    );
+
+    const actual = sortMembers(source, "file.ts", { markedOnly: true });
+
+    expect(actual).toBe(
+      lines(
+        "const free = { b: 1, a: 2 };",
+        "// @sorted",
+        "const colors = { blue: 2, inner: { x: 2, y: 1 }, red: 1 };",
+        "const outer = {",
+        "  b: 1,",
+        "  // @sorted",
+        "  a: { y: 2, z: 1 },",
+        "};"
+      )
+    );
+  });
+
+  it("should leave sorted sources untouched", () => {
+    const source = "const sorted = { a: 1, b: { c: 2 } };\n";
+
+    expect(sortMembers(source, "file.ts")).toBe(source);
+  });
+
+  it("should parse TSX", () => {
+    const source = "const el = <div style={{ b: 1, a: 2 }} />;";
+
+    expect(sortMembers(source, "file.tsx")).toBe(
+      "const el = <div style={{ a: 2, b: 1 }} />;"
+    );
+  });
+});
+
+describe("findUnsorted", () => {
+  it("should report the line and the first key out of order", () => {
+    const source = lines(
+      "const ok = { a: 1, b: 2 };",
+      "interface Point {",
+      "  y: number;",
+      "  x: number;",
+      "}",
+      "const point = {",
+      "  x: 1,",
+      "  z: { b: 1, a: 2 },",
+      "};"
+    );
+
+    const actual = findUnsorted(source, "file.ts");
+
+    expect(actual).toStrictEqual([
+      {
+        line: 2,
+        message:
+          'interface Point members are not sorted: "x" should come before "y"',
+      },
+      {
+        line: 8,
+        message:
+          'object literal keys are not sorted: "a" should come before "b"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { defineMachine, StateMachineError } from "../src/state-machine";
+
+type WindowState = "open" | "closed" | "minimized";
+type WindowEvent = "open" | "minimize" | "restore" | "close";
+
+function createWindowMachine(log: string[] = []) {
+  return defineMachine<WindowState, WindowEvent, { minimized: number }>()({
+    initial: "closed",
+    context: { minimized: 0 },
+    on: { close: "closed" },
+    states: {
+      open: {
+        on: {
+          minimize: {
+            target: "minimized",
+            update: (context) => ({ minimized: context.minimized + 1 }),
+          },
+        },
+        entry: (_, { event }) => log.push(`enter open on ${event}`),
+        exit: (_, { event }) => log.push(`exit open on ${event}`),
+      },
+      minimized: { on: { restore: "open" } },
+      closed: {
+        on: { open: "open" },
+        entry: () => log.push("enter closed"),
+      },
+    },
+  });
+}
+
+describe("state machines", () => {
+  it("should go open → minimized → open and close from any state", () => {
+    const machine = createWindowMachine().start();
+
+    expect(machine.state).toBe("closed");
+    expect(machine.send("open")).toBe(true);
+    expect(machine.send("minimize")).toBe(true);
+    expect(machine.state).toBe("minimized");
+    expect(machine.send("restore")).toBe(true);
+    expect(machine.state).toBe("open");
+    machine.send("minimize");
+    expect(machine.send("close")).toBe(true);
+    expect(machine.state).toBe("closed");
+    expect(machine.context).toStrictEqual({ minimized: 2 });
+  });
+
+  it("should ignore events the current state has no transition for", () => {
+    const machine = createWindowMachine().start();
+
+    expect(machine.can("minimize")).toBe(false);
+    expect(machine.send("minimize")).toBe(false);
+    expect(machine.state).toBe("closed");
+  });
+
+  it("should not take inherited members of a table as transitions", () => {
+    const machine = createWindowMachine().start();
+    const event = "toString" as WindowEvent;
+
+    expect(machine.can(event)).toBe(false);
+    expect(machine.send(event as never)).toBe(false);
+    expect(machine.state).toBe("closed");
+  });
+
+  it("should run exit and entry hooks in order", () => {
+    const log: string[] = [];
+    const machine = createWindowMachine(log).start();
+
+    machine.send("open");
+    machine.send("close");
+
+    expect(log).toStrictEqual([
+      "enter closed",
+      "enter open on open",
+      "exit open on close",
+      "enter closed",
+    ]);
+  });
+
+  it("should take the first transition whose guard passes", () => {
+    const door = defineMachine<
+      "locked" | "closed",
+      "unlock" | "lock",
+      { attempts: number; code: number }
+    >()({
+      initial: "locked",
+      context: { attempts: 0, code: 1234 },
+      states: {
+        locked: {
+          on: {
+            unlock: [
+              { target: "closed", guard: ({ attempts }) => attempts >= 2 },
+              {
+                target: "locked",
+                update: (context) => ({
+                  ...context,
+                  attempts: context.attempts + 1,
+                }),
+              },
+            ],
+          },
+        },
+        closed: { on: { lock: "locked" } },
+      },
+    });
+    const machine = door.start();
+
+    machine.send("unlock");
+    machine.send("unlock");
+    expect(machine.snapshot()).toStrictEqual({
+      state: "locked",
+      context: { attempts: 2, code: 1234 },
+    });
+    machine.send("unlock");
+    expect(machine.state).toBe("closed");
+  });
+
+  it("should restore a machine from a JSON snapshot", () => {
+    const log: string[] = [];
+    const definition = createWindowMachine(log);
+    const machine = definition.start();
+    machine.send("open");
+    machine.send("minimize");
+    const hooksRun = log.length;
+
+    const restored = definition.start(
+      JSON.parse(JSON.stringify(machine.snapshot()))
+    );
+
+    expect(restored.state).toBe("minimized");
+    expect(restored.context).toStrictEqual({ minimized: 1 });
+    expect(log).toHaveLength(hooksRun);
+    expect(() =>
+      definition.start({
+        state: "maximized" as WindowState,
+        context: { minimized: 0 },
+      })
+    ).toThrow(new StateMachineError('Unknown state "maximized"'));
+  });
+
+  it("should look up transitions without running them", () => {
+    const definition = createWindowMachine();
+
+    expect(definition.transition("open", "minimize")).toBe("minimized");
+    expect(definition.transition("minimized", "close")).toBe("closed");
+    expect(definition.states).toStrictEqual(["open", "minimized", "closed"]);
+  });
+
+  it("should reject undefined transitions at compile time", () => {
+    const machine = createWindowMachine().start();
+
+    if (machine.matches("open")) {
+      // @ts-expect-error an open window cannot be restored
+      machine.send("restore");
+      machine.send("minimize");
+    }
+    // @ts-expect-error a closed window cannot be minimized
+    createWindowMachine().transition("closed", "minimize");
+    // @ts-expect-error "maximize" is not an event
+    machine.send("maximize");
+
+    defineMachine<WindowState, WindowEvent>()({
+      initial: "open",
+      context: undefined,
+      states: {
+        // @ts-expect-error "maximized" is not a state
+        open: { on: { minimize: "maximized" } },
+        minimized: {},
+        closed: {},
+      },
+    });
+    defineMachine<WindowState, WindowEvent>()({
+      initial: "open",
+      context: undefined,
+      // @ts-expect-error every state needs an entry
+      states: { open: {}, closed: {} },
+    });
+
+    expect(machine.state).toBe("closed");
+  });
+});
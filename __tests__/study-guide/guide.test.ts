@@ -0,0 +1,175 @@
+import {
+  buildGuide,
+  collectReferences,
+  Lesson,
+  pageNames,
+  renderHtml,
+  renderMarkdown,
+} from "../../src/study-guide";
+
+const lesson = (
+  file: string,
+  title: string,
+  urls: string[] | undefined
+): Lesson => ({
+  file,
+  title,
+  intro: `About ${title}.`,
+  sections: [
+    {
+      title: "should work",
+      line: 3,
+      blocks: [
+        { kind: "prose", text: "It works." },
+        { kind: "code", text: "expect(1 < 2).toBe(true);" },
+      ],
+    },
+    { title: "should work", line: 9, blocks: [] },
+  ],
+  references: urls?.map((url) => ({ url, note: "" })),
+});
+
+const lessons = [
+  lesson("src/ts/types/arrays.test.ts", "Arrays", [
+    "https://example.com/a",
+    "https://example.com/b",
+  ]),
+  lesson("src/ts/tutorials/basics.test.ts", "Basics", [
+    "https://example.com/b",
+  ]),
+  lesson("src/ts/numbers.test.ts", "Numbers", undefined),
+];
+
+describe("pageNames", () => {
+  it("should name pages after the paths below the shared directory", () => {
+    expect(pageNames(lessons.map(({ file }) => file))).toEqual([
+      "types-arrays",
+      "tutorials-basics",
+      "numbers",
+    ]);
+    expect(pageNames(["a/b/only.test.ts"])).toEqual(["only"]);
+  });
+
+  it("should give every page its own name and keep index for the guide", () => {
+    expect(
+      pageNames([
+        "src/index.test.ts",
+        "src/a_b.test.ts",
+        "src/a-b.test.ts",
+        "src/a-b-2.test.ts",
+      ])
+    ).toEqual(["index-2", "a-b", "a-b-2", "a-b-2-2"]);
+  });
+});
+
+describe("collectReferences", () => {
+  it("should list each URL once with the lessons citing it", () => {
+    const references = collectReferences(lessons);
+
+    expect(
+      references.map(({ url, lessons }) => [
+        url,
+        lessons.map(({ title }) => title),
+      ])
+    ).toEqual([
+      ["https://example.com/a", ["Arrays"]],
+      ["https://example.com/b", ["Arrays", "Basics"]],
+    ]);
+  });
+});
+
+describe("buildGuide", () => {
+  it("should write an index and a page per lesson", () => {
+    const pages = buildGuide(lessons);
+
+    expect(pages.map(({ path }) => path)).toEqual([
+      "index.md",
+      "types-arrays.md",
+      "tutorials-basics.md",
+      "numbers.md",
+    ]);
+    expect(pages[0].text).toContain(
+      "1. [Arrays](types-arrays.md) (2 sections)"
+    );
+    expect(pages[0].text).toContain(
+      "- https://example.com/b — cited by [Arrays](types-arrays.md), [Basics](tutorials-basics.md)"
+    );
+  });
+
+  it("should link each page to the index and its neighbours", () => {
+    const [, first, second, last] = buildGuide(lessons);
+
+    expect(first.text).toContain(
+      "[Study guide](index.md) · Next: [Basics](tutorials-basics.md)"
+    );
+    expect(second.text).toContain(
+      "Previous: [Arrays](types-arrays.md) · Next: [Numbers](numbers.md)"
+    );
+    expect(last.text).toContain("## References\n\nNone listed.");
+  });
+
+  it("should give sections with the same title their own anchors", () => {
+    const [, page] = buildGuide(lessons);
+
+    expect(page.text).toContain(
+      "- [should work](#should-work)\n- [should work](#should-work-2)"
+    );
+    expect(page.text).toContain('<a id="should-work-2"></a>');
+  });
+
+  it("should write HTML pages", () => {
+    const pages = buildGuide(lessons, "html");
+
+    expect(pages.map(({ path }) => path)).toContain("types-arrays.html");
+    expect(pages[1].text).toContain(
+      '<pre><code class="language-ts">expect(1 &lt; 2).toBe(true);</code></pre>'
+    );
+    expect(pages[1].text).toContain('<h2 id="should-work-2">should work</h2>');
+  });
+});
+
+describe("renderers", () => {
+  const document = {
+    title: "A <b> title",
+    blocks: [
+      {
+        kind: "prose" as const,
+        text: "See `a < b` and [docs](https://example.com/docs), or\nhttps://example.com/x.\n\nSteps:\n1. first\n   continued\n2. second",
+      },
+      { kind: "heading" as const, text: "Part", id: "part" },
+      { kind: "code" as const, text: "const a = 1;" },
+    ],
+  };
+
+  it("should pass prose through to Markdown", () => {
+    expect(renderMarkdown(document)).toBe(
+      [
+        "# A <b> title",
+        "",
+        document.blocks[0].text,
+        "",
+        '<a id="part"></a>',
+        "",
+        "## Part",
+        "",
+        "```ts",
+        "const a = 1;",
+        "```",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should convert prose to escaped HTML", () => {
+    const html = renderHtml(document);
+
+    expect(html).toContain("<title>A &lt;b&gt; title</title>");
+    expect(html).toContain(
+      '<p>See <code>a &lt; b</code> and <a href="https://example.com/docs">docs</a>, or\n<a href="https://example.com/x">https://example.com/x</a>.</p>'
+    );
+    expect(html).toContain(
+      "<p>Steps:</p>\n<ol>\n<li>first continued</li>\n<li>second</li>\n</ol>"
+    );
+    expect(html).toContain('<h2 id="part">Part</h2>');
+  });
+});
@@ -0,0 +1,128 @@
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, resolve } from "path";
+import { checkLesson, parseLesson } from "../../src/study-guide";
+
+const source = [
+  "/**",
+  " * Arrays hold values of one type.",
+  " *",
+  " * - number[] and Array<number> are the same",
+  " */",
+  "",
+  'import { add } from "./add";',
+  "",
+  'describe("Arrays:", () => {',
+  '  it("should type elements", () => {',
+  "    /**",
+  "     * An array literal is typed from its elements.",
+  "     */",
+  "    const numbers = [1, 2];",
+  "",
+  "    numbers.push(3); // fine",
+  "    // @expect-error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.",
+  '    // numbers.push("4");',
+  "    expect(numbers).toEqual([1, 2, 3]);",
+  "    // Reading past the end",
+  "    // gives undefined.",
+  "    expect(numbers[5]).toBeUndefined();",
+  "    /** Trailing notes come last. */",
+  "  });",
+  "",
+  '  it("should be empty", () => {});',
+  "});",
+  "",
+  "/**",
+  " * References:",
+  " * - https://example.com/arrays (chapter 2)",
+  " * - not a link",
+  " */",
+  "",
+].join("\n");
+
+function lessonFiles(directory: string): string[] {
+  return readdirSync(directory).flatMap((name) => {
+    const path = join(directory, name);
+    if (statSync(path).isDirectory()) {
+      return lessonFiles(path);
+    }
+    return name.endsWith(".test.ts") ? [path] : [];
+  });
+}
+
+describe("parseLesson", () => {
+  it("should read the title, intro and references", () => {
+    const lesson = parseLesson(source, "arrays.test.ts");
+
+    expect(lesson.title).toBe("Arrays");
+    expect(lesson.intro).toBe(
+      "Arrays hold values of one type.\n\n- number[] and Array<number> are the same"
+    );
+    expect(lesson.references).toEqual([
+      { url: "https://example.com/arrays", note: "(chapter 2)" },
+    ]);
+  });
+
+  it("should interleave explanations with the code that follows them", () => {
+    const [section, empty] = parseLesson(source, "arrays.test.ts").sections;
+
+    expect(section.title).toBe("should type elements");
+    expect(section.line).toBe(10);
+    expect(section.blocks).toEqual([
+      {
+        kind: "prose",
+        text: "An array literal is typed from its elements.",
+      },
+      {
+        kind: "code",
+        text: [
+          "const numbers = [1, 2];",
+          "",
+          "numbers.push(3); // fine",
+          "// @expect-error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.",
+          '// numbers.push("4");',
+          "expect(numbers).toEqual([1, 2, 3]);",
+        ].join("\n"),
+      },
+      { kind: "prose", text: "Reading past the end\ngives undefined." },
+      { kind: "code", text: "expect(numbers[5]).toBeUndefined();" },
+      { kind: "prose", text: "Trailing notes come last." },
+    ]);
+    expect(empty.blocks).toEqual([]);
+  });
+
+  it("should fall back to the file name without a describe block", () => {
+    const lesson = parseLesson('it("works", () => {\n  run();\n});\n', "a.ts");
+
+    expect(lesson.title).toBe("a");
+    expect(lesson.intro).toBe("");
+    expect(lesson.references).toBeUndefined();
+    expect(lesson.sections).toHaveLength(1);
+  });
+});
+
+describe("checkLesson", () => {
+  it("should flag missing references and empty sections", () => {
+    expect(checkLesson(parseLesson(source, "arrays.test.ts"))).toEqual([
+      {
+        file: "arrays.test.ts",
+        line: 26,
+        message: 'Section "should be empty" is empty',
+      },
+    ]);
+    expect(checkLesson(parseLesson("const x = 1;\n", "x.ts"))).toEqual([
+      { file: "x.ts", line: 1, message: "Missing a References comment" },
+      { file: "x.ts", line: 1, message: "No it sections" },
+    ]);
+  });
+
+  it("should pass for every lesson in the repository", () => {
+    const files = lessonFiles(resolve(__dirname, "../../src/ts"));
+
+    expect(files.length).toBeGreaterThan(0);
+    for (const file of files) {
+      expect(
+        checkLesson(parseLesson(readFileSync(file, "utf8"), file))
+      ).toEqual([]);
+    }
+  });
+});
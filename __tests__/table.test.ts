@@ -0,0 +1,142 @@
+import { align, clip, renderTable, wrap } from "../src/table";
+import { displayWidth } from "../src/text";
+
+describe("align", () => {
+  it("should pad to the left, right or center", () => {
+    expect(align("ab", 6)).toBe("ab    ");
+    expect(align("ab", 6, "right")).toBe("    ab");
+    expect(align("ab", 6, "center")).toBe("  ab  ");
+    expect(align("ab", 5, "center")).toBe(" ab  ");
+    expect(align("abc", 2)).toBe("abc");
+  });
+
+  it("should pad by display width", () => {
+    expect(align("東京", 6, "right")).toBe("  東京");
+  });
+});
+
+describe("clip", () => {
+  it("should end cut text with an ellipsis", () => {
+    expect(clip("Footastic", 4)).toBe("Foo…");
+    expect(clip("Foo", 3)).toBe("Foo");
+    expect(clip("東京都", 5)).toBe("東京…");
+    expect(clip("東京都", 4)).toBe("東…");
+  });
+});
+
+describe("wrap", () => {
+  it("should break lines at spaces", () => {
+    expect(wrap("the quick brown fox", 10)).toStrictEqual([
+      "the quick",
+      "brown fox",
+    ]);
+  });
+
+  it("should break words that do not fit, keeping graphemes whole", () => {
+    expect(wrap("abcdefgh ij", 3)).toStrictEqual(["abc", "def", "gh", "ij"]);
+    expect(wrap("東京都庁", 3)).toStrictEqual(["東", "京", "都", "庁"]);
+  });
+
+  it("should keep newlines and blank lines", () => {
+    expect(wrap("a\n\nb", 5)).toStrictEqual(["a", "", "b"]);
+  });
+});
+
+describe("renderTable", () => {
+  const columns = [
+    { header: "n", align: "right" as const },
+    { header: "says" },
+  ];
+  const rows = [
+    [1, "1"],
+    [3, "Fizz"],
+    [15, "FizzBuzz"],
+  ];
+
+  it("should draw a box table", () => {
+    expect(renderTable(rows, { columns })).toBe(
+      [
+        "┌────┬──────────┐",
+        "│  n │ says     │",
+        "├────┼──────────┤",
+        "│  1 │ 1        │",
+        "│  3 │ Fizz     │",
+        "│ 15 │ FizzBuzz │",
+        "└────┴──────────┘",
+      ].join("\n")
+    );
+  });
+
+  it("should leave out the header when no column has one", () => {
+    expect(renderTable([["a", null, true]])).toBe(
+      ["┌───┬──┬──────┐", "│ a │  │ true │", "└───┴──┴──────┘"].join("\n")
+    );
+  });
+
+  it("should write a Markdown table", () => {
+    expect(
+      renderTable([["a|b", "x"]], {
+        columns: [{ header: "pipe", align: "center" }],
+        style: "markdown",
+      })
+    ).toBe(["| pipe |     |", "|:----:|:----|", "| a\\|b | x   |"].join("\n"));
+  });
+
+  it("should line up wide characters", () => {
+    const table = renderTable(
+      [
+        ["東京", "👍🏽"],
+        ["Paris", "ok"],
+      ],
+      { columns: [{ header: "city" }, { header: "🌡", align: "center" }] }
+    );
+    const widths = table.split("\n").map(displayWidth);
+
+    expect(new Set(widths).size).toBe(1);
+    expect(table).toContain("│ 東京  │ 👍🏽 │");
+  });
+
+  it("should wrap or truncate cells wider than maxWidth", () => {
+    const text = "the quick brown fox";
+
+    expect(renderTable([[text]], { columns: [{ maxWidth: 10 }] })).toBe(
+      [
+        "┌────────────┐",
+        "│ the quick  │",
+        "│ brown fox  │",
+        "└────────────┘",
+      ].join("\n")
+    );
+    expect(
+      renderTable([[text, "!"]], {
+        columns: [{ maxWidth: 10, overflow: "truncate", padding: 0 }],
+      })
+    ).toBe(
+      ["┌──────────┬───┐", "│the quick…│ ! │", "└──────────┴───┘"].join("\n")
+    );
+    expect(
+      renderTable([[text]], { columns: [{ maxWidth: 10 }], style: "markdown" })
+    ).toBe(
+      [
+        "|                        |",
+        "|:-----------------------|",
+        "| the quick<br>brown fox |",
+      ].join("\n")
+    );
+  });
+
+  it("should respect minWidth", () => {
+    expect(renderTable([["a"]], { columns: [{ minWidth: 3 }] })).toBe(
+      ["┌─────┐", "│ a   │", "└─────┘"].join("\n")
+    );
+  });
+
+  it("should reject invalid widths", () => {
+    expect(() => renderTable([], { columns: [{ maxWidth: 0 }] })).toThrow(
+      new RangeError("maxWidth must be an integer of at least 1, got 0")
+    );
+    expect(() =>
+      renderTable([], { columns: [{ minWidth: 5, maxWidth: 3 }] })
+    ).toThrow(new RangeError("minWidth 5 is larger than maxWidth 3"));
+  });
+});
@@ -0,0 +1,121 @@
+import { forAll, integer, string, tuple } from "../src/property";
+import {
+  displayWidth,
+  formatList,
+  graphemeLength,
+  graphemes,
+  sliceGraphemes,
+  truncate,
+} from "../src/text";
+
+const family = "👨‍👩‍👧";
+const thumbsUp = "👍🏽";
+// "e" followed by a combining acute accent.
+const accented = "e\u0301";
+
+// Letters, combining marks, a zero-width joiner and emoji parts, so that the
+// generated strings are full of multi-code-unit graphemes.
+const tricky = string({ alphabet: "ab\u0301\u0308\u200d👨👩🏽🇫🇷" });
+
+describe("graphemes", () => {
+  it("should keep emoji and combining characters whole", () => {
+    expect(graphemes(`${family}${thumbsUp}${accented}!`)).toStrictEqual([
+      family,
+      thumbsUp,
+      accented,
+      "!",
+    ]);
+    expect(graphemeLength(family)).toBe(1);
+    expect(family.length).toBe(8);
+    expect(graphemeLength("")).toBe(0);
+  });
+
+  it("should rebuild the text from its graphemes", () => {
+    forAll(tricky, (text) => graphemes(text).join("") === text);
+  });
+});
+
+describe("displayWidth", () => {
+  it("should count wide characters and emoji as two columns", () => {
+    expect(displayWidth("Bob")).toBe(3);
+    expect(displayWidth("東京")).toBe(4);
+    expect(displayWidth("한국어")).toBe(6);
+    expect(displayWidth("ｆｕｌｌ")).toBe(8);
+    expect(displayWidth(`${family}${thumbsUp}`)).toBe(4);
+    expect(displayWidth("🇫🇷")).toBe(2);
+    expect(displayWidth("❤\ufe0f")).toBe(2);
+  });
+
+  it("should not count combining marks or control characters", () => {
+    expect(displayWidth(`caf${accented}`)).toBe(4);
+    expect(displayWidth("a\u200bb\u0007")).toBe(2);
+    expect(displayWidth("")).toBe(0);
+  });
+});
+
+describe("sliceGraphemes", () => {
+  it("should slice by grapheme like String.prototype.slice", () => {
+    const text = `${family} family`;
+
+    expect(text.slice(0, 3)).not.toBe(`${family} f`);
+    expect(sliceGraphemes(text, 0, 3)).toBe(`${family} f`);
+    expect(sliceGraphemes(text, 2)).toBe("family");
+    expect(sliceGraphemes(text, -3)).toBe("ily");
+    expect(sliceGraphemes(`caf${accented}s`, 0, -1)).toBe(`caf${accented}`);
+    expect(sliceGraphemes("abc")).toBe("abc");
+  });
+});
+
+describe("truncate", () => {
+  it("should leave text that fits alone", () => {
+    expect(truncate("Bob", 3)).toBe("Bob");
+    expect(truncate(`${family}${family}`, 2)).toBe(`${family}${family}`);
+  });
+
+  it("should count the ellipsis in the length", () => {
+    expect(truncate("Footastic", 4)).toBe("Foo…");
+    expect(truncate(`${thumbsUp}${thumbsUp}${thumbsUp}`, 2)).toBe(
+      `${thumbsUp}…`
+    );
+    expect(truncate("Footastic", 6, { ellipsis: "..." })).toBe("Foo...");
+    expect(truncate("Footastic", 3, { ellipsis: "" })).toBe("Foo");
+  });
+
+  it("should never return more than maxLength graphemes", () => {
+    forAll(
+      tuple(tricky, integer({ min: 1, max: 10 })),
+      ([text, maxLength]) =>
+        graphemeLength(truncate(text, maxLength)) <= maxLength
+    );
+  });
+
+  it("should reject lengths the ellipsis does not fit in", () => {
+    expect(() => truncate("Footastic", -1)).toThrow(
+      new RangeError("maxLength must be a non-negative integer, got -1")
+    );
+    expect(() => truncate("Footastic", 2, { ellipsis: "..." })).toThrow(
+      new RangeError('The ellipsis "..." is longer than maxLength 2')
+    );
+  });
+});
+
+describe("formatList", () => {
+  const people = ["Bob", "Sally", "Jerry"];
+
+  it("should join with the locale's conjunction", () => {
+    expect(formatList(people)).toBe("Bob, Sally, and Jerry");
+    expect(formatList(people, { locale: "fr" })).toBe("Bob, Sally et Jerry");
+    expect(formatList(["Bob", "Sally"])).toBe("Bob and Sally");
+    expect(formatList(["Bob"])).toBe("Bob");
+    expect(formatList([])).toBe("");
+  });
+
+  it("should join alternatives with a disjunction", () => {
+    expect(formatList(people, { type: "disjunction" })).toBe(
+      "Bob, Sally, or Jerry"
+    );
+    expect(formatList(people, { type: "unit", style: "narrow" })).toBe(
+      "Bob Sally Jerry"
+    );
+  });
+});
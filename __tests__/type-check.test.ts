@@ -0,0 +1,93 @@
+import { readdirSync } from "fs";
+import { join, resolve } from "path";
+import { checkFiles, checkSources } from "../src/type-check";
+
+jest.setTimeout(60_000);
+
+function lessonFiles(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return lessonFiles(path);
+    }
+    return entry.name.endsWith(".test.ts") ? [path] : [];
+  });
+}
+
+const snippet = (source: string) =>
+  checkSources({ [resolve(__dirname, "snippet.ts")]: source }).map(
+    ({ line, message }) => ({ line, message })
+  );
+
+describe("checkSources", () => {
+  it("should accept errors annotated with their exact code", () => {
+    const actual = snippet(
+      [
+        "const names: string[] = [];",
+        "// @expect-error TS2345",
+        "names.push(1);",
+        "function greet(name: string) {",
+        "  // @expect-error TS2322",
+        "  // const count: number = name;",
+        "  return name;",
+        "}",
+        "greet(names[0]);",
+      ].join("\n")
+    );
+
+    expect(actual).toStrictEqual([]);
+  });
+
+  it("should report a different code, a missing error and stray errors", () => {
+    const actual = snippet(
+      [
+        "// @expect-error TS2322",
+        'Math.max("1");',
+        "// @expect-error TS2322",
+        "// const fine: string = 'fine';",
+        "const oops: number = 'oops';",
+      ].join("\n")
+    );
+
+    expect(actual).toStrictEqual([
+      {
+        line: 2,
+        message:
+          "Unexpected TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.",
+      },
+      {
+        line: 5,
+        message:
+          "Unexpected TS2322: Type 'string' is not assignable to type 'number'.",
+      },
+      { line: 2, message: "Expected TS2322 but it was not reported" },
+      { line: 4, message: "Expected TS2322 but it was not reported" },
+    ]);
+  });
+
+  it("should check expectType and expectError", () => {
+    const actual = snippet(
+      [
+        'import add from "../src/add";',
+        'import { expectError, expectType } from "../src/type-check";',
+        "expectType<number>(add(1, 2));",
+        "expectType<number | undefined>([1][0]);",
+        'expectError(add("1", 2));',
+        "expectError(add(1, 2));",
+      ].join("\n")
+    );
+
+    expect(actual).toStrictEqual([
+      { line: 4, message: "Expected type number | undefined but got number" },
+      { line: 6, message: "Expected an error but the expression compiled" },
+    ]);
+  });
+});
+
+describe("lessons", () => {
+  it("should fail to compile exactly where they say they would", () => {
+    const actual = checkFiles(lessonFiles(resolve(__dirname, "../src/ts")));
+
+    expect(actual).toStrictEqual([]);
+  });
+});
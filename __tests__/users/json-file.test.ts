@@ -0,0 +1,128 @@
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  JsonFileUserRepository,
+  LockTimeoutError,
+  UserRepositoryError,
+} from "../../src/users";
+
+describe("JsonFileUserRepository", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "users-"));
+    path = join(directory, "users.json");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true });
+  });
+
+  it("should persist users across instances", async () => {
+    await new JsonFileUserRepository(path).create("Bob");
+
+    const actual = await new JsonFileUserRepository(path).get(1);
+
+    expect(actual.name).toBe("Bob");
+    expect(JSON.parse(readFileSync(path, "utf8"))).toStrictEqual({
+      nextId: 2,
+      users: [{ name: "Bob", id: 1 }],
+    });
+  });
+
+  it("should leave no temporary or lock files behind", async () => {
+    const users = new JsonFileUserRepository(path);
+    await users.create("Bob");
+    await expect(users.create("Bob")).rejects.toThrow();
+
+    expect(readdirSync(directory)).toStrictEqual(["users.json"]);
+  });
+
+  it("should not lose concurrent writes", async () => {
+    const names = Array.from({ length: 20 }, (_, i) => `user${i}`);
+
+    await Promise.all(
+      names.map((name) => new JsonFileUserRepository(path).create(name))
+    );
+
+    const actual = await new JsonFileUserRepository(path).findByNamePrefix(
+      "user"
+    );
+    expect(actual.map(({ id }) => id).sort((a, b) => a - b)).toStrictEqual(
+      names.map((_, i) => i + 1)
+    );
+  });
+
+  it("should time out while another writer holds the lock", async () => {
+    writeFileSync(`${path}.lock`, "12345");
+    const users = new JsonFileUserRepository(path, { lockTimeoutMs: 50 });
+
+    await expect(users.create("Bob")).rejects.toThrow(LockTimeoutError);
+    // Reads do not need the lock.
+    await expect(users.findByNamePrefix("")).resolves.toStrictEqual([]);
+  });
+
+  it("should break a stale lock", async () => {
+    writeFileSync(`${path}.lock`, "12345");
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    utimesSync(`${path}.lock`, anHourAgo, anHourAgo);
+
+    const actual = await new JsonFileUserRepository(path).create("Bob");
+
+    expect(actual.id).toBe(1);
+  });
+
+  it("should let one waiter at a time take over a stale lock", async () => {
+    writeFileSync(`${path}.lock`, "12345");
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    utimesSync(`${path}.lock`, anHourAgo, anHourAgo);
+    const names = Array.from({ length: 10 }, (_, i) => `user${i}`);
+
+    await Promise.all(
+      names.map((name) => new JsonFileUserRepository(path).create(name))
+    );
+
+    const actual = await new JsonFileUserRepository(path).findByNamePrefix(
+      "user"
+    );
+    expect(actual).toHaveLength(names.length);
+    expect(readdirSync(directory)).toStrictEqual(["users.json"]);
+  });
+
+  it("should report a corrupt file", async () => {
+    writeFileSync(path, "{ not json");
+
+    await expect(new JsonFileUserRepository(path).get(1)).rejects.toThrow(
+      new UserRepositoryError(`${path} is not valid JSON`)
+    );
+
+    for (const snapshot of [
+      {},
+      // The same id twice.
+      {
+        nextId: 3,
+        users: [
+          { name: "Bob", id: 1 },
+          { name: "Jill", id: 1 },
+        ],
+      },
+      // An id that create would hand out again.
+      { nextId: 2, users: [{ name: "Bob", id: 2 }] },
+    ]) {
+      writeFileSync(path, JSON.stringify(snapshot));
+
+      await expect(new JsonFileUserRepository(path).get(1)).rejects.toThrow(
+        new UserRepositoryError(`${path} does not hold users`)
+      );
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DuplicateUserNameError,
+  InMemoryUserRepository,
+  InvalidUserNameError,
+  JsonFileUserRepository,
+  UserAccount,
+  UserNotFoundError,
+  UserRepository,
+  UserRepositoryError,
+} from "../../src/users";
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), "users-"));
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true });
+});
+
+let files = 0;
+
+describe.each<[string, () => UserRepository]>([
+  ["InMemoryUserRepository", () => new InMemoryUserRepository()],
+  [
+    "JsonFileUserRepository",
+    () => new JsonFileUserRepository(join(directory, `${++files}.json`)),
+  ],
+])("%s", (_, createRepository) => {
+  let users: UserRepository;
+
+  beforeEach(() => {
+    users = createRepository();
+  });
+
+  it("should allocate ids and get users by id", async () => {
+    const bob = await users.create("Bob");
+    const jill = await users.create("Jill");
+
+    expect(bob).toStrictEqual(new UserAccount("Bob", 1));
+    expect(jill).toStrictEqual(new UserAccount("Jill", 2));
+    expect(await users.get(2)).toStrictEqual(jill);
+  });
+
+  it("should find users by name prefix, ordered by name", async () => {
+    await users.create("Sally");
+    await users.create("Sam");
+    await users.create("Bob");
+    await users.create("Sabrina");
+
+    const actual = await users.findByNamePrefix("Sa");
+
+    expect(actual.map(({ name }) => name)).toStrictEqual([
+      "Sabrina",
+      "Sally",
+      "Sam",
+    ]);
+    expect(await users.findByNamePrefix("Z")).toStrictEqual([]);
+  });
+
+  it("should update and delete users", async () => {
+    const bob = await users.create("Bob");
+
+    expect(await users.update(bob.id, { name: "Robert" })).toStrictEqual(
+      new UserAccount("Robert", bob.id)
+    );
+    expect((await users.get(bob.id)).name).toBe("Robert");
+
+    await users.delete(bob.id);
+
+    await expect(users.get(bob.id)).rejects.toThrow(UserNotFoundError);
+  });
+
+  it("should never reuse the id of a deleted user", async () => {
+    await users.create("Bob");
+    const jill = await users.create("Jill");
+    await users.delete(jill.id);
+
+    const actual = await users.create("Sally");
+
+    expect(actual.id).toBe(3);
+  });
+
+  it("should not store changes made to returned accounts", async () => {
+    const bob = await users.create("Bob");
+    bob.name = "Changed";
+
+    expect((await users.get(bob.id)).name).toBe("Bob");
+  });
+
+  it("should reject duplicate and blank names", async () => {
+    await users.create("Bob");
+    const jill = await users.create("Jill");
+
+    await expect(users.create("Bob")).rejects.toThrow(
+      new DuplicateUserNameError("Bob")
+    );
+    await expect(users.update(jill.id, { name: "Bob" })).rejects.toThrow(
+      DuplicateUserNameError
+    );
+    await expect(users.update(jill.id, { name: "Jill" })).resolves.toEqual(
+      jill
+    );
+    await expect(users.create("  ")).rejects.toThrow(InvalidUserNameError);
+  });
+
+  it("should report missing users by id", async () => {
+    await expect(users.get(42)).rejects.toThrow(new UserNotFoundError(42));
+    await expect(users.update(42, { name: "x" })).rejects.toThrow(
+      UserNotFoundError
+    );
+    await expect(users.delete(42)).rejects.toMatchObject({ id: 42 });
+  });
+});
+
+describe("InMemoryUserRepository snapshots", () => {
+  it("should not overwrite a user whose id is already taken", async () => {
+    const users = new InMemoryUserRepository({
+      nextId: 1,
+      users: [{ name: "Bob", id: 1 }],
+    });
+
+    await expect(users.create("Jill")).rejects.toThrow(
+      new UserRepositoryError("The id 1 is already taken")
+    );
+    expect((await users.get(1)).name).toBe("Bob");
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Arithmetic that does not silently lose precision. Every operation is
+ * variadic and works on one of three kinds of value:
+ *
+ * - number: plain floating point, like add() in add.ts. In checked mode, a
+ *   result outside the safe integer range (or not finite) throws an
+ *   ArithmeticOverflowError instead of being returned.
+ * - bigint: arbitrary precision integers. Division truncates, as it does
+ *   natively.
+ * - Decimal: exact decimal fractions, so 0.1 + 0.2 is exactly 0.3. Addition,
+ *   subtraction and multiplication are exact; division rounds to the
+ *   configured scale using the configured rounding mode.
+ */
+
+import addNumbers from "./add";
+
+export type RoundingMode =
+  | "up"
+  | "down"
+  | "ceiling"
+  | "floor"
+  | "half-up"
+  | "half-down"
+  | "half-even";
+
+export type ArithmeticOptions = {
+  /** Throw instead of returning an unsafe number result. */
+  checked?: boolean;
+  /** Digits kept after the decimal point when dividing Decimals. */
+  scale?: number;
+  rounding?: RoundingMode;
+};
+
+export class ArithmeticError extends Error {
+  readonly operation: string;
+
+  constructor(operation: string, message: string) {
+    super(`${operation}: ${message}`);
+    this.name = "ArithmeticError";
+    this.operation = operation;
+  }
+}
+
+export class ArithmeticOverflowError extends ArithmeticError {
+  constructor(operation: string, result: number) {
+    super(operation, `${result} is outside the safe integer range`);
+    this.name = "ArithmeticOverflowError";
+  }
+}
+
+export class DivisionByZeroError extends ArithmeticError {
+  constructor(operation: string) {
+    super(operation, "division by zero");
+    this.name = "DivisionByZeroError";
+  }
+}
+
+const TEN = BigInt(10);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+function pow10(exponent: number): bigint {
+  return TEN ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+/**
+ * Divides two integers, rounding the quotient with the given mode.
+ */
+function divideRounded(
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode
+): bigint {
+  const negative = numerator < ZERO !== denominator < ZERO;
+  const quotient = abs(numerator) / abs(denominator);
+  const remainder = abs(numerator) % abs(denominator);
+  if (remainder === ZERO) {
+    return negative ? -quotient : quotient;
+  }
+  const half = remainder * TWO - abs(denominator);
+  let roundAway: boolean;
+  switch (mode) {
+    case "up":
+      roundAway = true;
+      break;
+    case "down":
+      roundAway = false;
+      break;
+    case "ceiling":
+      roundAway = !negative;
+      break;
+    case "floor":
+      roundAway = negative;
+      break;
+    case "half-up":
+      roundAway = half >= ZERO;
+      break;
+    case "half-down":
+      roundAway = half > ZERO;
+      break;
+    case "half-even":
+      roundAway = half > ZERO || (half === ZERO && quotient % TWO === ONE);
+      break;
+  }
+  const rounded = roundAway ? quotient + ONE : quotient;
+  return negative ? -rounded : rounded;
+}
+
+/**
+ * An exact decimal number, written and read as a string such as "-12.50".
+ * The value is the coefficient divided by 10 to the power of the scale.
+ */
+export class Decimal {
+  readonly coefficient: bigint;
+  readonly scale: number;
+
+  private constructor(coefficient: bigint, scale: number) {
+    this.coefficient = coefficient;
+    this.scale = scale;
+  }
+
+  static from(value: string | number | bigint | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === "bigint") {
+      return new Decimal(value, 0);
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new RangeError(`${value} cannot be represented as a Decimal`);
+    }
+    const text = String(value).trim();
+    const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+    if (!match || (match[2] ?? "") + (match[3] ?? "") === "") {
+      throw new SyntaxError(`Invalid decimal "${text}"`);
+    }
+    const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+    let coefficient = BigInt(`${whole}${fraction}` || "0");
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === "-" ? -coefficient : coefficient, scale);
+  }
+
+  private aligned(other: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(this.scale, other.scale);
+    return [
+      this.coefficient * pow10(scale - this.scale),
+      other.coefficient * pow10(scale - other.scale),
+      scale,
+    ];
+  }
+
+  add(other: Decimal): Decimal {
+    const [a, b, scale] = this.aligned(other);
+    return new Decimal(a + b, scale);
+  }
+
+  subtract(other: Decimal): Decimal {
+    const [a, b, scale] = this.aligned(other);
+    return new Decimal(a - b, scale);
+  }
+
+  multiply(other: Decimal): Decimal {
+    return new Decimal(
+      this.coefficient * other.coefficient,
+      this.scale + other.scale
+    );
+  }
+
+  divide(other: Decimal, scale: number, rounding: RoundingMode): Decimal {
+    if (other.isZero()) {
+      throw new DivisionByZeroError("divide");
+    }
+    // (a / 10^sa) / (b / 10^sb) * 10^scale = a * 10^(scale + sb - sa) / b
+    const exponent = scale + other.scale - this.scale;
+    const numerator =
+      exponent >= 0 ? this.coefficient * pow10(exponent) : this.coefficient;
+    const denominator =
+      exponent >= 0 ? other.coefficient : other.coefficient * pow10(-exponent);
+    return new Decimal(divideRounded(numerator, denominator, rounding), scale);
+  }
+
+  round(scale: number, rounding: RoundingMode = "half-even"): Decimal {
+    if (scale >= this.scale) {
+      return new Decimal(this.coefficient * pow10(scale - this.scale), scale);
+    }
+    const divisor = pow10(this.scale - scale);
+    return new Decimal(
+      divideRounded(this.coefficient, divisor, rounding),
+      scale
+    );
+  }
+
+  compare(other: Decimal): -1 | 0 | 1 {
+    const [a, b] = this.aligned(other);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  equals(other: Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === ZERO;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    const digits = abs(this.coefficient)
+      .toString()
+      .padStart(this.scale + 1, "0");
+    const sign = this.coefficient < ZERO ? "-" : "";
+    if (this.scale === 0) {
+      return `${sign}${digits}`;
+    }
+    const point = digits.length - this.scale;
+    return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export function decimal(value: string | number | bigint | Decimal): Decimal {
+  return Decimal.from(value);
+}
+
+type Operation = {
+  (first: number, ...rest: number[]): number;
+  (first: bigint, ...rest: bigint[]): bigint;
+  (first: Decimal, ...rest: Decimal[]): Decimal;
+};
+
+export type Arithmetic = {
+  add: Operation;
+  subtract: Operation;
+  multiply: Operation;
+  divide: Operation;
+};
+
+type Value = number | bigint | Decimal;
+
+function kindOf(value: Value): "number" | "bigint" | "decimal" {
+  if (value instanceof Decimal) {
+    return "decimal";
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return typeof value as "number" | "bigint";
+  }
+  throw new TypeError(`Unsupported operand ${String(value)}`);
+}
+
+/**
+ * Creates the four operations with the given options. The module-level
+ * add/subtract/multiply/divide are unchecked, keep 20 decimal places when
+ * dividing Decimals and round half to even.
+ */
+export function createArithmetic(options: ArithmeticOptions = {}): Arithmetic {
+  const { checked = false, scale = 20, rounding = "half-even" } = options;
+  if (!Number.isInteger(scale) || scale < 0) {
+    throw new RangeError(`scale must be a non-negative integer, got ${scale}`);
+  }
+
+  function guard(operation: string, value: number): number {
+    if (
+      checked &&
+      (!Number.isFinite(value) || Math.abs(value) > Number.MAX_SAFE_INTEGER)
+    ) {
+      throw new ArithmeticOverflowError(operation, value);
+    }
+    return value;
+  }
+
+  function operation(
+    name: string,
+    numbers: (a: number, b: number) => number,
+    bigints: (a: bigint, b: bigint) => bigint,
+    decimals: (a: Decimal, b: Decimal) => Decimal
+  ): Operation {
+    return ((...values: Value[]) => {
+      if (values.length === 0) {
+        throw new TypeError(`${name} needs at least one operand`);
+      }
+      const kind = kindOf(values[0]);
+      if (values.some((value) => kindOf(value) !== kind)) {
+        throw new TypeError(`${name} cannot mix operand types`);
+      }
+      switch (kind) {
+        case "number":
+          return (values as number[])
+            .slice(1)
+            .reduce(
+              (a, b) => guard(name, numbers(a, b)),
+              guard(name, values[0] as number)
+            );
+        case "bigint":
+          return (values as bigint[]).reduce(bigints);
+        case "decimal":
+          return (values as Decimal[]).reduce(decimals);
+      }
+    }) as Operation;
+  }
+
+  return {
+    add: operation(
+      "add",
+      addNumbers,
+      (a, b) => a + b,
+      (a, b) => a.add(b)
+    ),
+    subtract: operation(
+      "subtract",
+      (a, b) => a - b,
+      (a, b) => a - b,
+      (a, b) => a.subtract(b)
+    ),
+    multiply: operation(
+      "multiply",
+      (a, b) => a * b,
+      (a, b) => a * b,
+      (a, b) => a.multiply(b)
+    ),
+    divide: operation(
+      "divide",
+      (a, b) => {
+        if (checked && b === 0) {
+          throw new DivisionByZeroError("divide");
+        }
+        return a / b;
+      },
+      (a, b) => {
+        if (b === ZERO) {
+          throw new DivisionByZeroError("divide");
+        }
+        return a / b;
+      },
+      (a, b) => a.divide(b, scale, rounding)
+    ),
+  };
+}
+
+export const { add, subtract, multiply, divide } = createArithmetic();
+
+/** The same operations, throwing instead of returning unsafe numbers. */
+export const checked = createArithmetic({ checked: true });
@@ -0,0 +1,118 @@
+/**
+ * Saved benchmark results, to compare later runs against. A baseline is a
+ * JSON file keyed by "suite/benchmark":
+ *
+ *   {
+ *     "version": 1,
+ *     "results": { "map/myMap": { "median": 812.5, ... } }
+ *   }
+ *
+ * Timings depend on the machine, so a baseline is only meaningful on the one
+ * it was saved on.
+ */
+
+import { Measurement } from "./harness";
+import { Summary } from "./stats";
+
+export const BASELINE_VERSION = 1;
+
+export type Baseline = {
+  version: typeof BASELINE_VERSION;
+  results: Record<string, Summary>;
+};
+
+export type Status = "new" | "unchanged" | "improved" | "regressed";
+
+export type Comparison = {
+  key: string;
+  current: Summary;
+  baseline: Summary | undefined;
+  /** The relative change in the median, e.g. 0.25 for 25% slower. */
+  change: number | undefined;
+  status: Status;
+};
+
+export type CompareOptions = {
+  /** The relative change in the median that counts. 0.1 (10%) by default. */
+  threshold?: number;
+};
+
+export class BaselineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BaselineError";
+  }
+}
+
+export function keyOf({ suite, name }: Measurement): string {
+  return `${suite}/${name}`;
+}
+
+export function toBaseline(measurements: readonly Measurement[]): Baseline {
+  return {
+    version: BASELINE_VERSION,
+    results: Object.fromEntries(
+      measurements.map((measurement) => [
+        keyOf(measurement),
+        measurement.summary,
+      ])
+    ),
+  };
+}
+
+export function parseBaseline(text: string): Baseline {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new BaselineError(`Invalid baseline: ${(error as Error).message}`);
+  }
+  const baseline = value as Partial<Baseline> | null;
+  if (baseline?.version !== BASELINE_VERSION) {
+    throw new BaselineError(
+      `Expected a version ${BASELINE_VERSION} baseline but got version ${baseline?.version}`
+    );
+  }
+  const results = Object.entries(baseline.results ?? {});
+  for (const [key, summary] of results) {
+    if (typeof summary?.median !== "number") {
+      throw new BaselineError(`The baseline for "${key}" has no median`);
+    }
+  }
+  return baseline as Baseline;
+}
+
+/**
+ * Compares each measurement with its baseline. A benchmark whose median
+ * moved by more than the threshold has improved or regressed; one that is
+ * not in the baseline is new.
+ */
+export function compare(
+  measurements: readonly Measurement[],
+  baseline: Baseline,
+  options: CompareOptions = {}
+): Comparison[] {
+  const { threshold = 0.1 } = options;
+  return measurements.map((measurement) => {
+    const key = keyOf(measurement);
+    const current = measurement.summary;
+    const before = baseline.results[key] as Summary | undefined;
+    if (!before) {
+      return {
+        key,
+        current,
+        baseline: undefined,
+        change: undefined,
+        status: "new",
+      };
+    }
+    const change = current.median / before.median - 1;
+    const status: Status =
+      change > threshold
+        ? "regressed"
+        : change < -threshold
+        ? "improved"
+        : "unchanged";
+    return { key, current, baseline: before, change, status };
+  });
+}
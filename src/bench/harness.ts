@@ -0,0 +1,102 @@
+/**
+ * Times benchmarks. Each one is first run for a while to warm up, so the JIT
+ * has compiled it before it is measured. Then its iteration count is doubled
+ * until a batch of iterations takes long enough for the clock to time it
+ * accurately, and that many iterations are timed once per sample.
+ *
+ * Timings are reported in nanoseconds per operation.
+ */
+
+import { performance } from "perf_hooks";
+import { Summary, summarize } from "./stats";
+
+export type Benchmark = {
+  name: string;
+  fn: () => unknown;
+};
+
+export type Suite = {
+  name: string;
+  description: string;
+  benchmarks: readonly Benchmark[];
+};
+
+export type MeasureOptions = {
+  /** How long to run a benchmark before measuring it. 100 ms by default. */
+  warmupMs?: number;
+  /** How long a sample should take at least. 10 ms by default. */
+  sampleMs?: number;
+  /** 30 by default. */
+  samples?: number;
+  /** The clock, in milliseconds. performance.now by default. */
+  now?: () => number;
+};
+
+export type Measurement = {
+  suite: string;
+  name: string;
+  /** The iterations timed in each sample. */
+  iterations: number;
+  /** Nanoseconds per operation. */
+  summary: Summary;
+};
+
+/** Doubling stops here, for functions too fast for the clock to notice. */
+const MAX_ITERATIONS = 2 ** 30;
+
+// Results are kept here so that the timed code cannot be optimized away.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let sink: unknown;
+
+function time(fn: () => unknown, iterations: number, now: () => number) {
+  const start = now();
+  for (let i = 0; i < iterations; i++) {
+    sink = fn();
+  }
+  return now() - start;
+}
+
+export function measure(
+  fn: () => unknown,
+  options: MeasureOptions = {}
+): Pick<Measurement, "iterations" | "summary"> {
+  const {
+    warmupMs = 100,
+    sampleMs = 10,
+    samples = 30,
+    now = () => performance.now(),
+  } = options;
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new RangeError(`samples must be a positive integer, got ${samples}`);
+  }
+
+  const warmupEnd = now() + warmupMs;
+  do {
+    sink = fn();
+  } while (now() < warmupEnd);
+
+  let iterations = 1;
+  while (time(fn, iterations, now) < sampleMs && iterations < MAX_ITERATIONS) {
+    iterations *= 2;
+  }
+
+  const timings = Array.from(
+    { length: samples },
+    () => (time(fn, iterations, now) * 1e6) / iterations
+  );
+  return { iterations, summary: summarize(timings) };
+}
+
+/** Measures each benchmark of a suite in turn. */
+export function runSuite(
+  suite: Suite,
+  options: MeasureOptions = {}
+): Measurement[] {
+  const measurements = suite.benchmarks.map(({ name, fn }) => ({
+    suite: suite.name,
+    name,
+    ...measure(fn, options),
+  }));
+  sink = undefined;
+  return measurements;
+}
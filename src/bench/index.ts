@@ -0,0 +1,5 @@
+export * from "./baseline";
+export * from "./harness";
+export * from "./report";
+export * from "./stats";
+export * from "./suites";
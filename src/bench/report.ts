@@ -0,0 +1,52 @@
+/**
+ * Benchmark results as a table, one row per benchmark, with the change
+ * from the baseline when there is one.
+ */
+
+import { renderTable, TableStyle } from "../table";
+import { Comparison } from "./baseline";
+import { Measurement } from "./harness";
+
+/** Formats nanoseconds with a unit that keeps the number readable. */
+export function formatDuration(ns: number): string {
+  const [value, unit] =
+    ns >= 1e6 ? [ns / 1e6, "ms"] : ns >= 1e3 ? [ns / 1e3, "µs"] : [ns, "ns"];
+  return `${value.toPrecision(3)} ${unit}`;
+}
+
+function formatChange({ change, status }: Comparison): string {
+  if (change === undefined) {
+    return status;
+  }
+  const percent = `${change > 0 ? "+" : ""}${(change * 100).toFixed(1)}%`;
+  return status === "unchanged" ? percent : `${percent} ${status}`;
+}
+
+export function renderReport(
+  measurements: readonly Measurement[],
+  comparisons?: readonly Comparison[],
+  style?: TableStyle
+): string {
+  const rows = measurements.map(({ suite, name, summary }, i) => [
+    suite,
+    name,
+    formatDuration(summary.mean),
+    `±${((summary.marginOfError / summary.mean) * 100).toFixed(1)}%`,
+    formatDuration(summary.median),
+    formatDuration(summary.p95),
+    ...(comparisons ? [formatChange(comparisons[i])] : []),
+  ]);
+  const right = { align: "right" } as const;
+  return renderTable(rows, {
+    style,
+    columns: [
+      { header: "suite" },
+      { header: "benchmark" },
+      { header: "mean", ...right },
+      { header: "95% CI", ...right },
+      { header: "median", ...right },
+      { header: "p95", ...right },
+      ...(comparisons ? [{ header: "vs baseline", ...right }] : []),
+    ],
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Summary statistics for benchmark samples. Every sample is one timing, so
+ * the summary says how long an operation typically takes (median), how long
+ * the slow runs take (p95), and how sure we can be of the mean (the margin
+ * of its 95% confidence interval).
+ */
+
+export type Summary = {
+  samples: number;
+  mean: number;
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+  /** Half the width of the 95% confidence interval around the mean. */
+  marginOfError: number;
+};
+
+/**
+ * Two-sided 95% critical values of Student's t distribution, by degrees of
+ * freedom. Beyond the table, the normal distribution's 1.96 is close enough.
+ */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201,
+  2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074,
+  2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function criticalValue(degreesOfFreedom: number): number {
+  return T_95[degreesOfFreedom - 1] ?? 1.96;
+}
+
+/** The value below which the given fraction of sorted values fall. */
+export function quantile(sorted: readonly number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+export function summarize(samples: readonly number[]): Summary {
+  if (samples.length === 0) {
+    throw new RangeError("Cannot summarize zero samples");
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / n;
+  const variance =
+    n > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)
+      : 0;
+  const standardDeviation = Math.sqrt(variance);
+  return {
+    samples: n,
+    mean,
+    median: quantile(sorted, 0.5),
+    p95: quantile(sorted, 0.95),
+    min: sorted[0],
+    max: sorted[n - 1],
+    standardDeviation,
+    marginOfError:
+      n > 1 ? (criticalValue(n - 1) * standardDeviation) / Math.sqrt(n) : 0,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * The benchmarks run by ts-practice bench. Each suite pits a helper written
+ * in the lessons against the built-in it imitates, or against itself on
+ * differently shaped inputs.
+ */
+
+import { sortObjectKeys } from "../canonical-json";
+import { once } from "../functions";
+import { Suite } from "./harness";
+
+/** myMap from the function type signatures lesson. */
+function myMap<TInput, TOutput>(
+  input: TInput[],
+  f: (item: TInput) => TOutput
+): TOutput[] {
+  const output: TOutput[] = [];
+  for (let i = 0; i < input.length; i++) {
+    output[i] = f(input[i]);
+  }
+  return output;
+}
+
+const NUMBERS = Array.from({ length: 1_000 }, (_, i) => i);
+
+const double = (n: number) => n * 2;
+
+const SIZE = 10_000;
+
+/** An object with SIZE keys, inserted out of order. */
+const wideObject = once(() => {
+  const object: Record<string, number> = {};
+  for (let i = 0; i < SIZE; i++) {
+    // 7919 is prime, so this visits every index once, shuffled.
+    object[`key${(i * 7919) % SIZE}`] = i;
+  }
+  return object;
+});
+
+/** An object nested SIZE levels deep, too deep to sort by recursion. */
+const deepObject = once(() => {
+  let object: Record<string, unknown> = {};
+  for (let i = 0; i < SIZE; i++) {
+    object = { value: i, child: object };
+  }
+  return object;
+});
+
+export const SUITES: readonly Suite[] = [
+  {
+    name: "map",
+    description: "myMap against Array.prototype.map on 1,000 numbers",
+    benchmarks: [
+      { name: "myMap", fn: () => myMap(NUMBERS, double) },
+      { name: "Array.prototype.map", fn: () => NUMBERS.map(double) },
+    ],
+  },
+  {
+    name: "sort-object-keys",
+    description: "sortObjectKeys on wide and deep objects",
+    benchmarks: [
+      {
+        name: `${SIZE.toLocaleString("en")} keys wide`,
+        fn: () => sortObjectKeys(wideObject()),
+      },
+      {
+        name: `${SIZE.toLocaleString("en")} levels deep`,
+        fn: () => sortObjectKeys(deepObject()),
+      },
+    ],
+  },
+];
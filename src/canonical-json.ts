@@ -0,0 +1,326 @@
+/**
+ * Deterministic JSON serialization, following the JSON Canonicalization
+ * Scheme (RFC 8785): object keys are sorted by their UTF-16 code units,
+ * arrays keep their order, numbers are written the way ECMAScript's
+ * Number.prototype.toString writes them, and no whitespace is emitted.
+ *
+ * Alongside the canonical string form, sortObjectKeys produces the ordered
+ * entries form used by the lessons, where every object becomes an array of
+ * { k, v } pairs. fromOrderedEntries turns that form back into plain objects.
+ */
+
+export type OrderedEntry = { k: string; v: OrderedValue };
+
+export type OrderedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | OrderedEntry[]
+  | OrderedValue[];
+
+export class CircularReferenceError extends Error {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Circular reference detected at ${path}`);
+    this.name = "CircularReferenceError";
+    this.path = path;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function compareKeys(a: string, b: string): number {
+  // The default string comparison in JavaScript already orders by UTF-16
+  // code units, which is exactly what RFC 8785 section 3.2.3 asks for.
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function toJSONValue(value: any, key: string): any {
+  if (value !== null && typeof value === "object") {
+    if (typeof value.toJSON === "function") {
+      return value.toJSON(key);
+    }
+  }
+  return value;
+}
+
+function serializeNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`Cannot canonicalize non-finite number ${value}`);
+  }
+  // Number.prototype.toString is the serialization RFC 8785 section 3.2.2.3
+  // prescribes; it also writes -0 as "0".
+  return String(value);
+}
+
+function isSkipped(value: unknown): boolean {
+  return (
+    value === undefined ||
+    typeof value === "function" ||
+    typeof value === "symbol"
+  );
+}
+
+/** Where a frame of a traversal sits: its parent and its key there. */
+type Located = { parent: Located | undefined; key: string | number };
+
+/**
+ * The path of the child at key in a frame, built only when an error needs
+ * it. The root frame's own key is not part of the path.
+ */
+function pathOf(frame: Located | undefined, key: string | number): string {
+  if (!frame) {
+    return "$";
+  }
+  const keys = [key];
+  for (let current = frame; current.parent; current = current.parent) {
+    keys.unshift(current.key);
+  }
+  return keys.reduce<string>(childPath, "$");
+}
+
+/** An object or array being serialized, and how far canonicalize got. */
+type SerializeFrame = Located & {
+  value: any;
+  /** The sorted keys of an object; undefined for an array. */
+  keys: string[] | undefined;
+  index: number;
+  /** The serialized members or items so far. */
+  parts: string[];
+  /** Written before the frame's output in its parent, e.g. "name":. */
+  prefix: string;
+};
+
+/**
+ * Serializes a value as canonical JSON. Like JSON.stringify, undefined,
+ * functions and symbols are dropped from objects and written as null inside
+ * arrays, and toJSON() is honoured. Unlike JSON.stringify, non-finite numbers
+ * and bigints are rejected, and cycles raise a CircularReferenceError.
+ *
+ * Like sortObjectKeys, it keeps its own stack instead of recursing.
+ */
+export function canonicalize(value: unknown): string {
+  if (isSkipped(value)) {
+    throw new TypeError(`Cannot canonicalize a value of type ${typeof value}`);
+  }
+  const ancestors = new Set<object>();
+  const stack: SerializeFrame[] = [];
+
+  /**
+   * Serializes a value whose toJSON() has been called, or, for an object or
+   * array, opens a frame for it and returns undefined.
+   */
+  const visit = (
+    value: any,
+    parent: SerializeFrame | undefined,
+    key: string | number,
+    prefix: string
+  ): string | undefined => {
+    if (value === null) {
+      return "null";
+    }
+    switch (typeof value) {
+      case "boolean":
+        return value ? "true" : "false";
+      case "number":
+        return serializeNumber(value);
+      case "string":
+        return JSON.stringify(value);
+      case "bigint":
+        throw new TypeError(
+          `Cannot canonicalize bigint at ${pathOf(parent, key)}`
+        );
+      case "object":
+        break;
+      default:
+        return "null";
+    }
+    if (ancestors.has(value)) {
+      throw new CircularReferenceError(pathOf(parent, key));
+    }
+    ancestors.add(value);
+    const keys = Array.isArray(value)
+      ? undefined
+      : Object.keys(value).sort(compareKeys);
+    stack.push({ value, keys, index: 0, parts: [], prefix, parent, key });
+    return undefined;
+  };
+
+  const root = visit(toJSONValue(value, ""), undefined, "", "");
+  if (root !== undefined) {
+    return root;
+  }
+  for (;;) {
+    const frame = stack[stack.length - 1];
+    const { keys, value, parts } = frame;
+    if (frame.index === (keys ?? value).length) {
+      ancestors.delete(value);
+      stack.pop();
+      const output = keys ? `{${parts.join(",")}}` : `[${parts.join(",")}]`;
+      const parent = stack[stack.length - 1];
+      if (!parent) {
+        return output;
+      }
+      parent.parts.push(frame.prefix + output);
+      continue;
+    }
+    const key = keys ? keys[frame.index] : frame.index;
+    frame.index++;
+    const child = toJSONValue(value[key], String(key));
+    if (keys && isSkipped(child)) {
+      continue;
+    }
+    const prefix = keys ? `${JSON.stringify(key)}:` : "";
+    const output = visit(child, frame, key, prefix);
+    if (output !== undefined) {
+      parts.push(prefix + output);
+    }
+  }
+}
+
+/** An object or array being sorted, and how far sortObjectKeys got. */
+type Frame = Located & {
+  value: any;
+  /** The sorted keys of an object; undefined for an array. */
+  keys: string[] | undefined;
+  index: number;
+  /** The entries of an object, or the items of an array, sorted so far. */
+  sorted: OrderedEntry[] | OrderedValue[];
+};
+
+function append(frame: Frame, key: string | number, value: OrderedValue) {
+  if (frame.keys) {
+    (frame.sorted as OrderedEntry[]).push({ k: key as string, v: value });
+  } else {
+    (frame.sorted as OrderedValue[]).push(value);
+  }
+}
+
+/**
+ * Sorts an object's keys at every level, returning the ordered entries form:
+ * each object becomes an array of { k, v } pairs in key order. Arrays keep
+ * their order (their elements are sorted in turn) and null stays null.
+ *
+ * The traversal keeps its own stack rather than recursing, so objects nested
+ * tens of thousands of levels deep do not overflow the call stack. Paths are
+ * only built for the error message when a cycle is found.
+ */
+export function sortObjectKeys(object: Record<string, any>): OrderedEntry[] {
+  if (object === null || typeof object !== "object") {
+    return object;
+  }
+  const ancestors = new Set<object>();
+  const open = (
+    value: any,
+    sorted: Frame["sorted"],
+    parent: Frame | undefined,
+    key: string | number
+  ): Frame => {
+    if (ancestors.has(value)) {
+      throw new CircularReferenceError(pathOf(parent, key));
+    }
+    ancestors.add(value);
+    const keys = Array.isArray(value)
+      ? undefined
+      : Object.keys(value).sort(compareKeys);
+    return { value, keys, index: 0, sorted, parent, key };
+  };
+
+  const root: Frame["sorted"] = [];
+  const stack = [open(object, root, undefined, "")];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const { keys, value } = frame;
+    if (frame.index === (keys ?? value).length) {
+      ancestors.delete(value);
+      stack.pop();
+      continue;
+    }
+    const key = keys ? keys[frame.index] : frame.index;
+    frame.index++;
+    const child = value[key];
+    if (child === null || typeof child !== "object") {
+      append(frame, key, child);
+      continue;
+    }
+    // The child's array is added now and filled in when its frame runs.
+    const childSorted: Frame["sorted"] = [];
+    append(frame, key, childSorted);
+    stack.push(open(child, childSorted, frame, key));
+  }
+  return root as OrderedEntry[];
+}
+
+/** Defines a member even when its name is "__proto__". */
+function setMember(object: Record<string, any>, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isOrderedEntry(value: unknown): value is OrderedEntry {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length === 2 &&
+    "k" in value &&
+    "v" in value &&
+    typeof value.k === "string"
+  );
+}
+
+/**
+ * Decodes the ordered entries form produced by sortObjectKeys back into plain
+ * objects. An array whose items are all { k, v } pairs is read as an object;
+ * any other array stays an array. Since an empty object and an empty array are
+ * both written as [], an empty array is always decoded as [].
+ */
+export function fromOrderedEntries(value: OrderedValue): any {
+  // Each array is decoded in one pass: its object or array is created and
+  // given to its parent first, and filled in when it comes off the stack.
+  const stack: { items: unknown[]; target: any; isObject: boolean }[] = [];
+  const open = (value: OrderedValue): any => {
+    if (!Array.isArray(value)) {
+      return value;
+    }
+    const items: unknown[] = value;
+    const isObject = items.length > 0 && items.every(isOrderedEntry);
+    const target = isObject ? {} : [];
+    stack.push({ items, target, isObject });
+    return target;
+  };
+
+  const root = open(value);
+  for (let frame = stack.pop(); frame; frame = stack.pop()) {
+    const { items, target, isObject } = frame;
+    for (const item of items) {
+      if (isObject) {
+        const { k, v } = item as OrderedEntry;
+        setMember(target, k, open(v));
+      } else {
+        target.push(open(item as OrderedValue));
+      }
+    }
+  }
+  return root;
+}
@@ -0,0 +1,475 @@
+#!/usr/bin/env node
+/**
+ * Command-line entry point for the practice utilities, so they can be used in
+ * shell pipelines:
+ *
+ *   ts-practice hello Bob
+ *   ts-practice add 10 5
+ *   ts-practice fizzbuzz --to 15 --rules 3:Fizz,5:Buzz,7:Bazz
+ *   ts-practice fizzbuzz --to 15 --table markdown
+ *   echo '{"b":1,"a":2}' | ts-practice sort-keys
+ *   ts-practice sort-members --check src/*.ts
+ *   ts-practice bench --suite map --baseline bench.json
+ *   ts-practice study-guide --out guide $(find src/ts -name "*.test.ts")
+ *
+ * Output goes to stdout and errors to stderr. The exit code is 0 on success,
+ * 1 when a command fails and 2 when it was called incorrectly.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import add from "./add";
+import {
+  compare,
+  parseBaseline,
+  renderReport,
+  runSuite,
+  SUITES,
+  toBaseline,
+} from "./bench";
+import { canonicalize } from "./canonical-json";
+import {
+  CLASSIC,
+  divisibleBy,
+  fizzbuzz,
+  FIZZ_BUZZ_BAZZ,
+  Game,
+  JAZZ,
+  range,
+  say,
+} from "./fizzbuzz";
+import hello from "./index";
+import { findUnsorted, sortMembers } from "./sort-members";
+import {
+  buildGuide,
+  checkLesson,
+  GuideFormat,
+  parseLesson,
+} from "./study-guide";
+import { renderTable, TableStyle } from "./table";
+
+export type IO = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+  readFile: (path: string) => string;
+  writeFile: (path: string, text: string) => void;
+};
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type Command = {
+  usage: string;
+  description: string;
+  run: (args: string[], io: IO) => Promise<void> | void;
+};
+
+const TABLE_STYLES: TableStyle[] = ["box", "markdown"];
+
+const GUIDE_FORMATS: GuideFormat[] = ["markdown", "html"];
+
+const PRESETS: Record<string, Game> = {
+  classic: CLASSIC,
+  fizzbuzzbazz: FIZZ_BUZZ_BAZZ,
+  jazz: JAZZ,
+};
+
+/** Looks up own keys only, so "constructor" is not a preset or a command. */
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key)
+    ? record[key]
+    : undefined;
+}
+
+function parseNumber(value: string | undefined, name: string): number {
+  if (value === undefined) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  const number = Number(value);
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw new UsageError(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseInteger(value: string | undefined, name: string): number {
+  const number = parseNumber(value, name);
+  if (!Number.isSafeInteger(number)) {
+    throw new UsageError(`${name} must be an integer, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Splits arguments into positionals and --name value / --name=value options.
+ * Flags take no value and are set to "true".
+ */
+function parseOptions(
+  args: string[],
+  known: string[],
+  flags: string[] = []
+): { positionals: string[]; options: Record<string, string> } {
+  const positionals: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--") || arg === "--") {
+      positionals.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (flags.includes(name) && inline === undefined) {
+      options[name] = "true";
+      continue;
+    }
+    if (!known.includes(name)) {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new UsageError(`Option --${name} requires a value`);
+    }
+    options[name] = value;
+  }
+  return { positionals, options };
+}
+
+function expectArity(args: string[], max: number) {
+  if (args.length > max) {
+    throw new UsageError(`Unexpected argument "${args[max]}"`);
+  }
+}
+
+/**
+ * Reads a --rules value: either a preset name or a comma-separated list of
+ * divisor:word pairs, such as "3:Fizz,5:Buzz".
+ */
+export function parseRules(spec: string): Game {
+  const preset = lookup(PRESETS, spec.toLowerCase());
+  if (preset) {
+    return preset;
+  }
+  return spec.split(",").map((pair) => {
+    const match = /^\s*(\d+)\s*:\s*(\S.*?)\s*$/.exec(pair);
+    if (!match || Number(match[1]) === 0) {
+      throw new UsageError(
+        `Invalid rule "${pair}": expected divisor:word or one of ${Object.keys(
+          PRESETS
+        ).join(", ")}`
+      );
+    }
+    return divisibleBy(Number(match[1]), match[2]);
+  });
+}
+
+const COMMANDS: Record<string, Command> = {
+  hello: {
+    usage: "hello [name]",
+    description: "Greet someone, or the world",
+    run(args, io) {
+      expectArity(args, 1);
+      io.stdout(`${args.length ? hello(args[0]) : hello()}\n`);
+    },
+  },
+  add: {
+    usage: "add <a> <b>",
+    description: "Add two numbers",
+    run(args, io) {
+      expectArity(args, 2);
+      const a = parseNumber(args[0], "a");
+      const b = parseNumber(args[1], "b");
+      io.stdout(`${add(a, b)}\n`);
+    },
+  },
+  fizzbuzz: {
+    usage:
+      "fizzbuzz --to <n> [--from <n>] [--rules <preset|divisor:word,...>] [--table <box|markdown>]",
+    description: "Play FizzBuzz, one line per number or as a table",
+    run(args, io) {
+      const { positionals, options } = parseOptions(args, [
+        "to",
+        "from",
+        "rules",
+        "table",
+      ]);
+      expectArity(positionals, 0);
+      const end = parseInteger(options.to, "--to");
+      const start = parseInteger(options.from ?? "1", "--from");
+      const game = options.rules ? parseRules(options.rules) : CLASSIC;
+      const style = options.table as TableStyle | undefined;
+      if (style !== undefined) {
+        if (!TABLE_STYLES.includes(style)) {
+          throw new UsageError(
+            `--table must be one of ${TABLE_STYLES.join(", ")}, got "${style}"`
+          );
+        }
+        const rows = Array.from(range({ start, end }), (n) => [
+          n,
+          say(n, game),
+        ]);
+        const columns = [
+          { header: "n", align: "right" as const },
+          { header: "says" },
+        ];
+        io.stdout(`${renderTable(rows, { columns, style })}\n`);
+        return;
+      }
+      for (const line of fizzbuzz({ start, end }, game)) {
+        io.stdout(`${line}\n`);
+      }
+    },
+  },
+  "sort-keys": {
+    usage: "sort-keys [file]",
+    description: "Write JSON from a file or stdin with its keys sorted",
+    async run(args, io) {
+      expectArity(args, 1);
+      const text =
+        args.length && args[0] !== "-"
+          ? io.readFile(args[0])
+          : await io.readStdin();
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+      }
+      io.stdout(`${canonicalize(value)}\n`);
+    },
+  },
+  "sort-members": {
+    usage: "sort-members (--check | --write) [--marked] <file...>",
+    description:
+      "Check or sort the keys of object literals and interfaces in .ts files",
+    run(args, io) {
+      const { positionals, options } = parseOptions(
+        args,
+        [],
+        ["check", "write", "marked"]
+      );
+      if (!options.check === !options.write) {
+        throw new UsageError("Pass exactly one of --check and --write");
+      }
+      if (positionals.length === 0) {
+        throw new UsageError("Missing file");
+      }
+      const sortOptions = { markedOnly: Boolean(options.marked) };
+      let unsorted = 0;
+      for (const file of positionals) {
+        const text = io.readFile(file);
+        if (options.write) {
+          const sorted = sortMembers(text, file, sortOptions);
+          if (sorted !== text) {
+            io.writeFile(file, sorted);
+            io.stdout(`Sorted ${file}\n`);
+          }
+          continue;
+        }
+        for (const { line, message } of findUnsorted(text, file, sortOptions)) {
+          io.stdout(`${file}:${line}: ${message}\n`);
+          unsorted++;
+        }
+      }
+      if (unsorted > 0) {
+        throw new Error(
+          `${unsorted} unsorted ${
+            unsorted === 1 ? "list" : "lists"
+          }; run with --write to sort them`
+        );
+      }
+    },
+  },
+  bench: {
+    usage:
+      "bench [--suite <name>] [--samples <n>] [--baseline <file>] [--threshold <percent>] [--save <file>]",
+    description:
+      "Time the benchmark suites, optionally against a saved baseline",
+    run(args, io) {
+      const { positionals, options } = parseOptions(args, [
+        "suite",
+        "samples",
+        "baseline",
+        "threshold",
+        "save",
+      ]);
+      expectArity(positionals, 0);
+      const suites = SUITES.filter(
+        ({ name }) => options.suite === undefined || name === options.suite
+      );
+      if (suites.length === 0) {
+        throw new UsageError(
+          `Unknown suite "${options.suite}": expected one of ${SUITES.map(
+            ({ name }) => name
+          ).join(", ")}`
+        );
+      }
+      const samples = parseInteger(options.samples ?? "30", "--samples");
+      const threshold = parseNumber(options.threshold ?? "10", "--threshold");
+      const baseline =
+        options.baseline === undefined
+          ? undefined
+          : parseBaseline(io.readFile(options.baseline));
+
+      const measurements = suites.flatMap((suite) =>
+        runSuite(suite, { samples })
+      );
+      const comparisons =
+        baseline &&
+        compare(measurements, baseline, { threshold: threshold / 100 });
+      io.stdout(`${renderReport(measurements, comparisons)}\n`);
+
+      if (options.save !== undefined) {
+        io.writeFile(
+          options.save,
+          `${JSON.stringify(toBaseline(measurements), null, 2)}\n`
+        );
+        io.stdout(`Saved ${options.save}\n`);
+      }
+      const regressed =
+        comparisons?.filter(({ status }) => status === "regressed") ?? [];
+      if (regressed.length > 0) {
+        throw new Error(
+          `${regressed.length} ${
+            regressed.length === 1 ? "benchmark" : "benchmarks"
+          } regressed by more than ${threshold}%: ${regressed
+            .map(({ key }) => key)
+            .join(", ")}`
+        );
+      }
+    },
+  },
+  "study-guide": {
+    usage:
+      "study-guide (--check | --out <dir>) [--format <markdown|html>] <file...>",
+    description:
+      "Write the lessons out as a study guide, or check that each one is complete",
+    run(args, io) {
+      const { positionals, options } = parseOptions(
+        args,
+        ["out", "format"],
+        ["check"]
+      );
+      if (!options.check === (options.out === undefined)) {
+        throw new UsageError("Pass exactly one of --check and --out");
+      }
+      if (positionals.length === 0) {
+        throw new UsageError("Missing file");
+      }
+      const format = (options.format ?? "markdown") as GuideFormat;
+      if (!GUIDE_FORMATS.includes(format)) {
+        throw new UsageError(
+          `--format must be one of ${GUIDE_FORMATS.join(", ")}, got "${format}"`
+        );
+      }
+      const lessons = positionals.map((file) =>
+        parseLesson(io.readFile(file), file)
+      );
+
+      if (options.check) {
+        const problems = lessons.flatMap(checkLesson);
+        for (const { file, line, message } of problems) {
+          io.stdout(`${file}:${line}: ${message}\n`);
+        }
+        if (problems.length > 0) {
+          throw new Error(
+            `${problems.length} ${
+              problems.length === 1 ? "problem" : "problems"
+            } in ${lessons.length} ${
+              lessons.length === 1 ? "lesson" : "lessons"
+            }`
+          );
+        }
+        return;
+      }
+      const pages = buildGuide(lessons, format);
+      for (const { path, text } of pages) {
+        io.writeFile(join(options.out, path), text);
+      }
+      io.stdout(`Wrote ${pages.length} pages to ${options.out}\n`);
+    },
+  },
+};
+
+function help(): string {
+  const width = Math.max(
+    ...Object.values(COMMANDS).map((command) => command.usage.length)
+  );
+  const lines = Object.values(COMMANDS).map(
+    (command) => `  ${command.usage.padEnd(width)}  ${command.description}`
+  );
+  return [
+    "Usage: ts-practice <command> [arguments]",
+    "",
+    "Commands:",
+    ...lines,
+    "",
+    "Run ts-practice <command> --help for a single command.",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths)
+ * and resolves to the process exit code.
+ */
+export async function run(argv: string[], io: IO): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (name === undefined || name === "--help" || name === "-h") {
+    (name === undefined ? io.stderr : io.stdout)(help());
+    return name === undefined ? 2 : 0;
+  }
+
+  const command = lookup(COMMANDS, name);
+  if (!command) {
+    io.stderr(`Unknown command "${name}"\n\n${help()}`);
+    return 2;
+  }
+  if (args.includes("--help") || args.includes("-h")) {
+    io.stdout(
+      `Usage: ts-practice ${command.usage}\n\n${command.description}\n`
+    );
+    return 0;
+  }
+
+  try {
+    await command.run(args, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\nUsage: ts-practice ${command.usage}\n`);
+      return 2;
+    }
+    io.stderr(`${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () => resolve(Buffer.concat(chunks).toString()));
+    process.stdin.on("error", reject);
+  });
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    readStdin,
+    readFile: (path) => readFileSync(path, "utf8"),
+    writeFile: (path, text) => {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, text);
+    },
+  }).then((code) => {
+    process.exitCode = code;
+  });
+}
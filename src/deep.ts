@@ -0,0 +1,304 @@
+/**
+ * Copies, freezes and merges nested data.
+ *
+ * deepClone copies plain objects, arrays, Date, RegExp, Map, Set, array
+ * buffers and typed arrays, and keeps cycles and shared references intact.
+ * Other objects are copied property by property onto the same prototype;
+ * functions are shared.
+ *
+ * deepMerge combines layers of settings, later layers winning:
+ *
+ *   const config = deepMerge(deepMerge(defaults, env), user, {
+ *     arrays: "replace",
+ *     paths: { plugins: { arrays: { mergeBy: "name" } } },
+ *   });
+ *
+ * Plain objects are merged key by key. Arrays follow the array strategy, and
+ * an undefined value either leaves the earlier one in place or deletes it.
+ * Both strategies can be set for the whole merge and for single paths, in
+ * the dotted notation of object-path. Anything else from the later layer
+ * replaces what was there. Neither input is changed, and the result shares
+ * nothing with them.
+ */
+
+import { formatPath, Paths } from "./object-path";
+
+/** Values deepMerge replaces whole and DeepReadonly leaves as they are. */
+type Atom =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ArrayBuffer
+  | ArrayBufferView
+  | ((...args: any[]) => unknown);
+
+export type DeepReadonly<T> = T extends Atom
+  ? T
+  : T extends Map<infer K, infer V>
+  ? ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>>
+  : T extends Set<infer V>
+  ? ReadonlySet<DeepReadonly<V>>
+  : { readonly [K in keyof T]: DeepReadonly<T[K]> };
+
+/**
+ * "replace" keeps the later array, "concat" appends it to the earlier one,
+ * and mergeBy merges the items whose property of that name is equal and
+ * appends the rest.
+ */
+export type ArrayStrategy = "replace" | "concat" | { mergeBy: string };
+
+/** "skip" keeps the earlier value, "delete" removes the key. */
+export type UndefinedStrategy = "skip" | "delete";
+
+export type MergeStrategy = {
+  /** "replace" by default. */
+  arrays?: ArrayStrategy;
+  /** "skip" by default. */
+  undefined?: UndefinedStrategy;
+};
+
+export type MergeOptions<T = unknown> = MergeStrategy & {
+  /** Strategies for single paths, overriding the ones above. */
+  paths?: { [P in Paths<T>]?: MergeStrategy };
+};
+
+/**
+ * The type deepMerge returns. Arrays become arrays of either side's items,
+ * since a path may concatenate them. It assumes undefined is skipped; keys
+ * deleted with "delete" are still in the type.
+ */
+export type Merge<A, B> = [B] extends [undefined]
+  ? A
+  : B extends readonly (infer ItemB)[]
+  ? A extends readonly (infer ItemA)[]
+    ? (ItemA | ItemB)[]
+    : B
+  : B extends Atom | Map<unknown, unknown> | Set<unknown>
+  ? B
+  : A extends Atom | readonly unknown[] | Map<unknown, unknown> | Set<unknown>
+  ? B
+  : MergeObjects<A, B>;
+
+type MergeObjects<A, B> = {
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends keyof A
+      ? undefined extends B[K]
+        ? A[K] | Merge<A[K], Exclude<B[K], undefined>>
+        : Merge<A[K], B[K]>
+      : B[K]
+    : K extends keyof A
+    ? A[K]
+    : never;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** Assigning "__proto__" would set the prototype instead of a property. */
+function assign(object: object, key: string, value: unknown): void {
+  if (key === "__proto__") {
+    Object.defineProperty(object, key, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  } else {
+    (object as Record<string, unknown>)[key] = value;
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Copies the objects deepClone copies whole, without looking inside. */
+function copyAtom(value: object): unknown {
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof RegExp) {
+    const copy = new RegExp(value.source, value.flags);
+    copy.lastIndex = value.lastIndex;
+    return copy;
+  }
+  if (value instanceof ArrayBuffer) {
+    return value.slice(0);
+  }
+  if (ArrayBuffer.isView(value)) {
+    const { buffer, byteOffset, byteLength } = value;
+    const bytes = buffer.slice(byteOffset, byteOffset + byteLength);
+    if (value instanceof DataView) {
+      return new DataView(bytes);
+    }
+    const TypedArray = value.constructor as new (
+      buffer: ArrayBuffer
+    ) => ArrayBufferView;
+    return new TypedArray(bytes);
+  }
+  return undefined;
+}
+
+export function deepClone<T>(value: T): T {
+  const copies = new Map<object, unknown>();
+
+  const clone = (value: unknown): unknown => {
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    if (copies.has(value)) {
+      return copies.get(value);
+    }
+    const atom = copyAtom(value);
+    if (atom !== undefined) {
+      copies.set(value, atom);
+      return atom;
+    }
+    if (value instanceof Map) {
+      const copy = new Map();
+      copies.set(value, copy);
+      value.forEach((item, key) => copy.set(clone(key), clone(item)));
+      return copy;
+    }
+    if (value instanceof Set) {
+      const copy = new Set();
+      copies.set(value, copy);
+      value.forEach((item) => copy.add(clone(item)));
+      return copy;
+    }
+    const copy: object = Array.isArray(value)
+      ? new Array(value.length)
+      : Object.create(Object.getPrototypeOf(value));
+    copies.set(value, copy);
+    for (const key of Object.keys(value)) {
+      assign(copy, key, clone((value as Record<string, unknown>)[key]));
+    }
+    return copy;
+  };
+
+  return clone(value) as T;
+}
+
+/**
+ * Freezes value and every object reachable from it, and returns it.
+ * Functions are shared rather than owned, so they are not frozen. Typed
+ * arrays with elements cannot be frozen and are left as they are. The
+ * entries of a Map or Set are frozen, but not the collection itself: only
+ * the DeepReadonly type keeps set and add from being called.
+ */
+export function deepFreeze<T>(value: T): DeepReadonly<T> {
+  const seen = new Set<object>();
+  const stack: unknown[] = [value];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (typeof current !== "object" || current === null || seen.has(current)) {
+      continue;
+    }
+    seen.add(current);
+    if (current instanceof Map) {
+      current.forEach((item, key) => stack.push(key, item));
+    } else if (current instanceof Set) {
+      current.forEach((item) => stack.push(item));
+    }
+    if (!ArrayBuffer.isView(current)) {
+      Object.freeze(current);
+      for (const key of Object.keys(current)) {
+        stack.push((current as Record<string, unknown>)[key]);
+      }
+    }
+  }
+  return value as DeepReadonly<T>;
+}
+
+export function deepMerge<A, B>(
+  base: A,
+  override: B,
+  options: MergeOptions<Merge<A, B>> = {}
+): Merge<A, B> {
+  const { paths = {}, ...defaults } = options;
+  const strategyAt = (path: string[]): Required<MergeStrategy> => ({
+    arrays: "replace",
+    undefined: "skip",
+    ...defaults,
+    ...(paths as Record<string, MergeStrategy>)[formatPath(path)],
+  });
+
+  const mergeArrays = (
+    base: unknown[],
+    override: unknown[],
+    path: string[]
+  ): unknown[] => {
+    const { arrays } = strategyAt(path);
+    if (arrays === "replace") {
+      return deepClone(override);
+    }
+    if (arrays === "concat") {
+      return deepClone([...base, ...override]);
+    }
+    // Items are cloned at the end, unless merging already made them anew.
+    // Two items only match when both have their own, defined key.
+    const key = arrays.mergeBy;
+    const keyOf = (item: unknown): unknown =>
+      isPlainObject(item) && hasOwn(item, key) ? item[key] : undefined;
+    const merged = [...base];
+    const fresh = new Set<number>();
+    for (const item of override) {
+      const id = keyOf(item);
+      const index =
+        id === undefined
+          ? -1
+          : merged.findIndex((other) => Object.is(keyOf(other), id));
+      if (index === -1) {
+        merged.push(item);
+      } else {
+        merged[index] = merge(merged[index], item, [...path, String(index)]);
+        fresh.add(index);
+      }
+    }
+    return merged.map((item, index) =>
+      fresh.has(index) ? item : deepClone(item)
+    );
+  };
+
+  const merge = (base: unknown, override: unknown, path: string[]): unknown => {
+    if (Array.isArray(base) && Array.isArray(override)) {
+      return mergeArrays(base, override, path);
+    }
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+      return deepClone(override);
+    }
+    const merged: Record<string, unknown> = {};
+    for (const key of Object.keys(base)) {
+      const value = override[key];
+      if (!hasOwn(override, key)) {
+        assign(merged, key, deepClone(base[key]));
+      } else if (value !== undefined) {
+        assign(merged, key, merge(base[key], value, [...path, key]));
+      } else if (strategyAt([...path, key]).undefined === "skip") {
+        assign(merged, key, deepClone(base[key]));
+      }
+    }
+    for (const key of Object.keys(override)) {
+      if (!hasOwn(base, key) && override[key] !== undefined) {
+        assign(merged, key, deepClone(override[key]));
+      }
+    }
+    return merged;
+  };
+
+  if (override === undefined) {
+    return deepClone(base) as Merge<A, B>;
+  }
+  return merge(base, override, []) as Merge<A, B>;
+}
@@ -0,0 +1,236 @@
+/**
+ * An event emitter whose events are declared up front. An event map names
+ * each event and the arguments its listeners receive:
+ *
+ *   type WindowEvents = {
+ *     resize: [width: number, height: number];
+ *     close: [];
+ *   };
+ *
+ *   const events = new TypedEmitter<WindowEvents>();
+ *   events.on("resize", (width, height) => layOut(width, height));
+ *   events.emit("resize", 800, 600);
+ *   events.emit("resize", "800"); // does not compile
+ *   events.emit("resise", 800, 600); // does not compile either
+ *
+ * An index signature such as [event: string]: unknown[] would accept every
+ * name; listing the names instead lets the compiler reject the ones that are
+ * not events.
+ *
+ * A listener that throws does not stop the others: every listener runs, and
+ * the errors are passed to onError, or thrown together afterwards as an
+ * EmitError.
+ */
+
+/** Maps each event name to the arguments its listeners are called with. */
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+export type EventName<Events> = keyof Events & string;
+
+export type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Called for every event, with its name first. Take the arguments as one
+ * rest parameter to narrow them by name: if (args[0] === "resize") ...
+ */
+export type AnyListener<Events extends EventMap<Events>> = (
+  ...args: {
+    [K in EventName<Events>]: [event: K, ...args: Events[K]];
+  }[EventName<Events>]
+) => void;
+
+export type EmitterOptions = {
+  /**
+   * How many listeners an event can have before a leak is suspected. 10 by
+   * default; Infinity turns the warning off.
+   */
+  maxListeners?: number;
+  /** Reports a suspected leak, once per event. console.warn by default. */
+  warn?: (message: string) => void;
+  /** Receives the errors listeners throw, instead of emit throwing them. */
+  onError?: (error: unknown, event: string) => void;
+};
+
+export class EmitError extends Error {
+  readonly event: string;
+  readonly errors: unknown[];
+
+  constructor(event: string, errors: unknown[]) {
+    super(
+      `${errors.length} ${
+        errors.length === 1 ? "listener" : "listeners"
+      } for "${event}" threw: ${errors
+        .map((error) =>
+          error instanceof Error ? error.message : String(error)
+        )
+        .join("; ")}`
+    );
+    this.name = "EmitError";
+    this.event = event;
+    this.errors = errors;
+  }
+}
+
+export class WaitTimeoutError extends Error {
+  readonly event: string;
+
+  constructor(event: string, timeout: number) {
+    super(`Timed out after ${timeout} ms waiting for "${event}"`);
+    this.name = "WaitTimeoutError";
+    this.event = event;
+  }
+}
+
+type Registration = {
+  listener: (...args: any) => void;
+  once: boolean;
+};
+
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private readonly listeners = new Map<string, Registration[]>();
+  private anyListeners: AnyListener<Events>[] = [];
+  private readonly warned = new Set<string>();
+  private readonly options: Required<Omit<EmitterOptions, "onError">> &
+    Pick<EmitterOptions, "onError">;
+
+  constructor(options: EmitterOptions = {}) {
+    const { maxListeners = 10, warn = console.warn, onError } = options;
+    this.options = { maxListeners, warn, onError };
+  }
+
+  /** Adds a listener and returns a function that removes it. */
+  on<K extends EventName<Events>>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    return this.add(event, { listener, once: false });
+  }
+
+  /** Adds a listener that is removed after its first call. */
+  once<K extends EventName<Events>>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    return this.add(event, { listener, once: true });
+  }
+
+  off<K extends EventName<Events>>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): void {
+    const registration = this.listeners
+      .get(event)
+      ?.find((registration) => registration.listener === listener);
+    if (registration) {
+      this.remove(event, registration);
+    }
+  }
+
+  /** Adds a listener for every event. */
+  onAny(listener: AnyListener<Events>): () => void {
+    this.anyListeners.push(listener);
+    return () => this.offAny(listener);
+  }
+
+  offAny(listener: AnyListener<Events>): void {
+    this.anyListeners = this.anyListeners.filter((other) => other !== listener);
+  }
+
+  listenerCount(event: EventName<Events>): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  removeAllListeners(event?: EventName<Events>): void {
+    if (event === undefined) {
+      this.listeners.clear();
+      this.anyListeners = [];
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Calls the event's listeners, then the ones for every event, in the order
+   * they were added. Listeners added or removed meanwhile take effect from
+   * the next emit. Returns whether there were any listeners.
+   */
+  emit<K extends EventName<Events>>(event: K, ...args: Events[K]): boolean {
+    const registrations = [...(this.listeners.get(event) ?? [])];
+    const anyListeners = [...this.anyListeners];
+    const errors: unknown[] = [];
+    const call = (f: () => void) => {
+      try {
+        f();
+      } catch (error) {
+        errors.push(error);
+      }
+    };
+
+    for (const registration of registrations) {
+      if (registration.once) {
+        this.remove(event, registration);
+      }
+      call(() => registration.listener(...args));
+    }
+    for (const listener of anyListeners) {
+      call(() =>
+        (listener as (event: K, ...args: Events[K]) => void)(event, ...args)
+      );
+    }
+
+    const { onError } = this.options;
+    if (onError) {
+      errors.forEach((error) => onError(error, event));
+    } else if (errors.length > 0) {
+      throw new EmitError(event, errors);
+    }
+    return registrations.length + anyListeners.length > 0;
+  }
+
+  /**
+   * Resolves with the arguments of the next emit of event, or rejects with
+   * a WaitTimeoutError if there is none within timeout milliseconds.
+   */
+  waitFor<K extends EventName<Events>>(
+    event: K,
+    options: { timeout?: number } = {}
+  ): Promise<Events[K]> {
+    const { timeout } = options;
+    return new Promise((resolve, reject) => {
+      const listener = (...args: Events[K]) => {
+        clearTimeout(timer);
+        resolve(args);
+      };
+      const timer =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              this.off(event, listener);
+              reject(new WaitTimeoutError(event, timeout));
+            }, timeout);
+      this.once(event, listener);
+    });
+  }
+
+  private add(event: string, registration: Registration): () => void {
+    const registrations = this.listeners.get(event) ?? [];
+    registrations.push(registration);
+    this.listeners.set(event, registrations);
+    const { maxListeners, warn } = this.options;
+    if (registrations.length > maxListeners && !this.warned.has(event)) {
+      this.warned.add(event);
+      warn(
+        `Possible listener leak: ${registrations.length} listeners for "${event}", more than the ${maxListeners} allowed. Remove the listeners that are no longer needed, or raise maxListeners.`
+      );
+    }
+    return () => this.remove(event, registration);
+  }
+
+  private remove(event: string, registration: Registration): void {
+    const registrations = this.listeners.get(event) ?? [];
+    const index = registrations.indexOf(registration);
+    if (index !== -1) {
+      registrations.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Arithmetic expressions such as "10 + 5 * (2 - x) ^ 2", for formulas that
+ * users write rather than code.
+ *
+ *   evaluate("10 + 5 * (2 - x) ^ 2", { variables: { x: 4 } }); // 30
+ *
+ * tokenize splits the source into tokens, parse builds a syntax tree from
+ * them with a Pratt parser, evaluate computes its value and print writes it
+ * back out. From loosest to tightest, the operators are:
+ *
+ * - + and -, left associative; addition is done by add() from add.ts
+ * - *, / and %, left associative
+ * - unary -, so -2 ^ 2 is -(2 ^ 2)
+ * - ^, right associative, so 2 ^ 3 ^ 2 is 2 ^ (3 ^ 2)
+ *
+ * Names are variables unless they are followed by an opening parenthesis,
+ * which makes them function calls. Every error carries the 1-based column
+ * of the token it is about.
+ */
+
+import add from "./add";
+
+export type TokenKind =
+  | "number"
+  | "name"
+  | "operator"
+  | "("
+  | ")"
+  | ","
+  | "end";
+
+export type Token = {
+  kind: TokenKind;
+  text: string;
+  column: number;
+};
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "^";
+
+export type Expression =
+  | { type: "number"; value: number; column: number }
+  | { type: "variable"; name: string; column: number }
+  | { type: "negate"; operand: Expression; column: number }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+      /** The column of the operator. */
+      column: number;
+    }
+  | { type: "call"; callee: string; args: Expression[]; column: number };
+
+export type MathFunction = (...args: number[]) => number;
+
+export type EvaluateOptions = {
+  variables?: Record<string, number>;
+  /** Added to, or replacing, the DEFAULT_FUNCTIONS. */
+  functions?: Record<string, MathFunction>;
+};
+
+export class ExpressionError extends Error {
+  readonly column: number;
+
+  constructor(message: string, column: number) {
+    super(`${message} at ${column}`);
+    this.name = "ExpressionError";
+    this.column = column;
+  }
+}
+
+/** The source is not a valid expression. */
+export class ExpressionSyntaxError extends ExpressionError {
+  constructor(message: string, column: number) {
+    super(message, column);
+    this.name = "ExpressionSyntaxError";
+  }
+}
+
+/** The expression is valid but cannot be computed. */
+export class EvaluationError extends ExpressionError {
+  constructor(message: string, column: number) {
+    super(message, column);
+    this.name = "EvaluationError";
+  }
+}
+
+/**
+ * A function is called with at least as many arguments as its length, so
+ * min and max take their first argument separately.
+ */
+export const DEFAULT_FUNCTIONS: Readonly<Record<string, MathFunction>> = {
+  min: (first: number, ...rest: number[]) => Math.min(first, ...rest),
+  max: (first: number, ...rest: number[]) => Math.max(first, ...rest),
+  sqrt: (x: number) => Math.sqrt(x),
+};
+
+const TOKEN =
+  /(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/%^])|[(),]/iy;
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  for (;;) {
+    while (/\s/.test(source.charAt(index))) {
+      index++;
+    }
+    const column = index + 1;
+    if (index === source.length) {
+      tokens.push({ kind: "end", text: "", column });
+      return tokens;
+    }
+    TOKEN.lastIndex = index;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw new ExpressionSyntaxError(
+        `Unexpected character '${source[index]}'`,
+        column
+      );
+    }
+    const [text, number, name, operator] = match;
+    const kind: TokenKind = number
+      ? "number"
+      : name
+      ? "name"
+      : operator
+      ? "operator"
+      : (text as "(" | ")" | ",");
+    tokens.push({ kind, text, column });
+    index = TOKEN.lastIndex;
+  }
+}
+
+/** How tightly each operator holds its operands. */
+const BINDING_POWER: Record<BinaryOperator, number> = {
+  "+": 10,
+  "-": 10,
+  "*": 20,
+  "/": 20,
+  "%": 20,
+  "^": 40,
+};
+
+const NEGATE_BINDING_POWER = 30;
+
+function isRightAssociative(operator: BinaryOperator): boolean {
+  return operator === "^";
+}
+
+function unexpected(token: Token): ExpressionSyntaxError {
+  return new ExpressionSyntaxError(
+    token.kind === "end"
+      ? "Unexpected end of input"
+      : `Unexpected token '${token.text}'`,
+    token.column
+  );
+}
+
+export function parse(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (kind: TokenKind) => {
+    const token = next();
+    if (token.kind !== kind) {
+      throw unexpected(token);
+    }
+    return token;
+  };
+
+  /** Parses the operand a prefix token starts. */
+  const prefix = (): Expression => {
+    const token = next();
+    const { column } = token;
+    switch (token.kind) {
+      case "number": {
+        // Infinity would print as a variable, so it cannot round-trip.
+        const value = Number(token.text);
+        if (!Number.isFinite(value)) {
+          throw new ExpressionSyntaxError(
+            `Number '${token.text}' is too large`,
+            column
+          );
+        }
+        return { type: "number", value, column };
+      }
+      case "name":
+        if (peek().kind !== "(") {
+          return { type: "variable", name: token.text, column };
+        }
+        next();
+        return {
+          type: "call",
+          callee: token.text,
+          args: callArguments(),
+          column,
+        };
+      case "(": {
+        const inner = expression(0);
+        expect(")");
+        return inner;
+      }
+      case "operator":
+        if (token.text === "-") {
+          const operand = expression(NEGATE_BINDING_POWER);
+          return { type: "negate", operand, column };
+        }
+    }
+    throw unexpected(token);
+  };
+
+  const callArguments = (): Expression[] => {
+    const args: Expression[] = [];
+    if (peek().kind === ")") {
+      next();
+      return args;
+    }
+    args.push(expression(0));
+    while (peek().kind === ",") {
+      next();
+      args.push(expression(0));
+    }
+    expect(")");
+    return args;
+  };
+
+  /** Parses operators for as long as they bind tighter than minPower. */
+  const expression = (minPower: number): Expression => {
+    let left = prefix();
+    for (;;) {
+      const token = peek();
+      if (token.kind !== "operator") {
+        return left;
+      }
+      const operator = token.text as BinaryOperator;
+      const power = BINDING_POWER[operator];
+      if (power <= minPower) {
+        return left;
+      }
+      next();
+      const right = expression(
+        isRightAssociative(operator) ? power - 1 : power
+      );
+      left = { type: "binary", operator, left, right, column: token.column };
+    }
+  };
+
+  const tree = expression(0);
+  expect("end");
+  return tree;
+}
+
+function precedence(expression: Expression): number {
+  switch (expression.type) {
+    case "binary":
+      return BINDING_POWER[expression.operator];
+    case "negate":
+      return NEGATE_BINDING_POWER;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Writes an expression with only the parentheses its structure needs, so
+ * that parsing the output gives the same tree back.
+ */
+export function print(expression: Expression): string {
+  const wrap = (operand: Expression, parenthesize: boolean) =>
+    parenthesize ? `(${print(operand)})` : print(operand);
+
+  switch (expression.type) {
+    case "number":
+      return String(expression.value);
+    case "variable":
+      return expression.name;
+    case "negate": {
+      const { operand } = expression;
+      return `-${wrap(
+        operand,
+        operand.type === "negate" || precedence(operand) < NEGATE_BINDING_POWER
+      )}`;
+    }
+    case "binary": {
+      const { operator, left, right } = expression;
+      const power = BINDING_POWER[operator];
+      const rightAssociative = isRightAssociative(operator);
+      const leftText = wrap(
+        left,
+        precedence(left) < power ||
+          (precedence(left) === power && rightAssociative)
+      );
+      const rightText = wrap(
+        right,
+        precedence(right) < power ||
+          (precedence(right) === power && !rightAssociative)
+      );
+      return `${leftText} ${operator} ${rightText}`;
+    }
+    case "call":
+      return `${expression.callee}(${expression.args.map(print).join(", ")})`;
+  }
+}
+
+export function evaluate(
+  expression: Expression | string,
+  options: EvaluateOptions = {}
+): number {
+  const { variables = {}, functions: custom = {} } = options;
+  const functions = { ...DEFAULT_FUNCTIONS, ...custom };
+  const has = (record: object, key: string) =>
+    Object.prototype.hasOwnProperty.call(record, key);
+
+  const compute = (node: Expression): number => {
+    switch (node.type) {
+      case "number":
+        return node.value;
+      case "variable":
+        if (!has(variables, node.name)) {
+          throw new EvaluationError(
+            `Unknown variable '${node.name}'`,
+            node.column
+          );
+        }
+        return variables[node.name];
+      case "negate":
+        return -compute(node.operand);
+      case "call": {
+        if (!has(functions, node.callee)) {
+          throw new EvaluationError(
+            `Unknown function '${node.callee}'`,
+            node.column
+          );
+        }
+        const f = functions[node.callee];
+        if (node.args.length < f.length) {
+          throw new EvaluationError(
+            `${node.callee} expects at least ${f.length} ${
+              f.length === 1 ? "argument" : "arguments"
+            } but got ${node.args.length}`,
+            node.column
+          );
+        }
+        return f(...node.args.map(compute));
+      }
+      case "binary": {
+        const left = compute(node.left);
+        const right = compute(node.right);
+        switch (node.operator) {
+          case "+":
+            return add(left, right);
+          case "-":
+            return add(left, -right);
+          case "*":
+            return left * right;
+          case "/":
+          case "%":
+            if (right === 0) {
+              throw new EvaluationError("Division by zero", node.column);
+            }
+            return node.operator === "/" ? left / right : left % right;
+          case "^":
+            return left ** right;
+        }
+      }
+    }
+  };
+
+  return compute(
+    typeof expression === "string" ? parse(expression) : expression
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * A FizzBuzz game is an ordered list of rules. Every rule that matches a
+ * number contributes its word, in order, unless an overriding rule matches:
+ * the first overriding rule that matches replaces the whole output. When no
+ * rule matches, the number itself is said.
+ *
+ * Numbers can be either `number` or `bigint`; a range and the numbers it
+ * yields always share one of the two types.
+ */
+
+export type Numeric = number | bigint;
+
+export type Rule<T extends Numeric = Numeric> = {
+  readonly word: string;
+  readonly matches: (n: T) => boolean;
+  /** Say only this word when the rule matches, ignoring every other rule. */
+  readonly override?: boolean;
+};
+
+export type Game<T extends Numeric = Numeric> = readonly Rule<T>[];
+
+export type Range<T extends Numeric> = {
+  start: T;
+  end: T;
+  /** Defaults to 1; a negative step counts down. */
+  step?: T;
+};
+
+function remainder(n: Numeric, divisor: Numeric): Numeric {
+  return typeof n === "bigint" ? n % BigInt(divisor) : n % Number(divisor);
+}
+
+export function divisibleBy(divisor: Numeric, word: string): Rule {
+  if (Number(divisor) === 0) {
+    throw new RangeError("A divisor cannot be zero");
+  }
+  return { word, matches: (n) => Number(remainder(n, divisor)) === 0 };
+}
+
+export function containsDigit(
+  digit: number,
+  word: string,
+  override = false
+): Rule {
+  return {
+    word,
+    matches: (n) => n.toString().includes(String(digit)),
+    override,
+  };
+}
+
+export function isPrime(n: Numeric): boolean {
+  const value = BigInt(n);
+  if (value < BigInt(2)) {
+    return false;
+  }
+  for (let i = BigInt(2); i * i <= value; i++) {
+    if (value % i === BigInt(0)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function prime(word: string, override = false): Rule {
+  return { word, matches: isPrime, override };
+}
+
+export function when<T extends Numeric = Numeric>(
+  matches: (n: T) => boolean,
+  word: string,
+  override = false
+): Rule<T> {
+  return { word, matches, override };
+}
+
+/** 3 → Fizz, 5 → Buzz. */
+export const CLASSIC: Game = [divisibleBy(3, "Fizz"), divisibleBy(5, "Buzz")];
+
+/** The classic game, plus 7 → Bazz. */
+export const FIZZ_BUZZ_BAZZ: Game = [...CLASSIC, divisibleBy(7, "Bazz")];
+
+/** The classic game, except any number containing a 7 is just "Jazz". */
+export const JAZZ: Game = [containsDigit(7, "Jazz", true), ...CLASSIC];
+
+/**
+ * Says a single number according to the rules of a game.
+ */
+export function say<T extends Numeric>(n: T, game: Game<T> = CLASSIC): string {
+  let output = "";
+  for (const rule of game) {
+    if (!rule.matches(n)) {
+      continue;
+    }
+    if (rule.override) {
+      return rule.word;
+    }
+    output += rule.word;
+  }
+  return output || n.toString();
+}
+
+/**
+ * Lazily yields every number from start to end, both included.
+ */
+export function* range<T extends Numeric>({
+  start,
+  end,
+  step,
+}: Range<T>): Generator<T> {
+  const increment = step ?? (typeof start === "bigint" ? BigInt(1) : 1);
+  if (typeof start !== typeof end || typeof start !== typeof increment) {
+    throw new TypeError("start, end and step must all be numbers or bigints");
+  }
+  if (Number(increment) === 0) {
+    throw new RangeError("step cannot be zero");
+  }
+  const ascending = increment > 0;
+  // The casts are safe: all three values were checked to share one type.
+  for (
+    let n: any = start;
+    ascending ? n <= end : n >= end;
+    n = n + (increment as any)
+  ) {
+    yield n;
+  }
+}
+
+/**
+ * Lazily plays a game over a range, yielding one output per number.
+ */
+export function* fizzbuzz<T extends Numeric>(
+  bounds: Range<T>,
+  game: Game<T> = CLASSIC
+): Generator<string> {
+  for (const n of range(bounds)) {
+    yield say(n, game);
+  }
+}
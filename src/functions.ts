@@ -0,0 +1,417 @@
+/**
+ * Functions that take functions and return new ones, typed so that
+ * nothing has to be annotated twice:
+ *
+ *   const shout = pipe((name: string) => name.trim(), (s) => s.toUpperCase());
+ *   shout(" bob "); // "BOB", and shout is (name: string) => string
+ *
+ * pipe and compose chain up to ten functions, each one's parameter typed
+ * from the previous one's return type. curry and partial keep the names of
+ * the parameters they leave, so editors still show (b: number) rather than
+ * (args_0: number).
+ *
+ * memoize, once, debounce and throttle control how often a function really
+ * runs. debounce and throttle return promises of the result, so callers get
+ * it whether the function is synchronous or async.
+ */
+
+/** Any function, for constraints; its parameters are checked by the caller. */
+type AnyFunction = (...args: any[]) => unknown;
+
+export function pipe<A extends unknown[], B>(
+  ab: (...args: A) => B
+): (...args: A) => B;
+export function pipe<A extends unknown[], B, C>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C
+): (...args: A) => C;
+export function pipe<A extends unknown[], B, C, D>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): (...args: A) => D;
+export function pipe<A extends unknown[], B, C, D, E>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): (...args: A) => E;
+export function pipe<A extends unknown[], B, C, D, E, F>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): (...args: A) => F;
+export function pipe<A extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): (...args: A) => G;
+export function pipe<A extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): (...args: A) => H;
+export function pipe<A extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): (...args: A) => I;
+export function pipe<A extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): (...args: A) => J;
+export function pipe<A extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  ab: (...args: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K
+): (...args: A) => K;
+/** Chains functions left to right: pipe(f, g)(x) is g(f(x)). */
+export function pipe(
+  first: AnyFunction,
+  ...rest: ((value: unknown) => unknown)[]
+): AnyFunction {
+  return (...args) => rest.reduce((value, f) => f(value), first(...args));
+}
+
+export function compose<A extends unknown[], B>(
+  ab: (...args: A) => B
+): (...args: A) => B;
+export function compose<A extends unknown[], B, C>(
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => C;
+export function compose<A extends unknown[], B, C, D>(
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => D;
+export function compose<A extends unknown[], B, C, D, E>(
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => E;
+export function compose<A extends unknown[], B, C, D, E, F>(
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => F;
+export function compose<A extends unknown[], B, C, D, E, F, G>(
+  fg: (f: F) => G,
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => G;
+export function compose<A extends unknown[], B, C, D, E, F, G, H>(
+  gh: (g: G) => H,
+  fg: (f: F) => G,
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => H;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I>(
+  hi: (h: H) => I,
+  gh: (g: G) => H,
+  fg: (f: F) => G,
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => I;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ij: (i: I) => J,
+  hi: (h: H) => I,
+  gh: (g: G) => H,
+  fg: (f: F) => G,
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => J;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  jk: (j: J) => K,
+  ij: (i: I) => J,
+  hi: (h: H) => I,
+  gh: (g: G) => H,
+  fg: (f: F) => G,
+  ef: (e: E) => F,
+  de: (d: D) => E,
+  cd: (c: C) => D,
+  bc: (b: B) => C,
+  ab: (...args: A) => B
+): (...args: A) => K;
+/** Chains functions right to left: compose(g, f)(x) is g(f(x)). */
+export function compose(...fns: AnyFunction[]): AnyFunction {
+  const last = fns[fns.length - 1];
+  const rest = fns.slice(0, -1);
+  return (...args) => rest.reduceRight((value, f) => f(value), last(...args));
+}
+
+/**
+ * A function taking P one parameter at a time. Only the required
+ * parameters are taken; the optional ones keep their defaults. The first
+ * parameter is sliced off P rather than inferred, which keeps its name.
+ */
+export type Curried<P extends unknown[], R> = P extends [unknown, ...infer Rest]
+  ? (
+      ...first: P extends [...infer First, ...Rest] ? First : never
+    ) => Curried<Rest, R>
+  : R;
+
+/** The parameters of P up to the first optional or rest parameter. */
+export type RequiredParameters<P extends unknown[]> = P extends [
+  infer First,
+  ...infer Rest
+]
+  ? [First, ...RequiredParameters<Rest>]
+  : [];
+
+/** The parameters left in P once the ones in Bound are given. */
+export type Remaining<
+  P extends unknown[],
+  Bound extends unknown[]
+> = P extends [...Bound, ...infer Rest] ? Rest : never;
+
+/**
+ * curry(f, 2)(a)(b) is f(a, b). The arity is the number of required
+ * parameters, checked against f's type: f.length would also count optional
+ * parameters, and is 0 for wrappers such as memoize(f).
+ */
+export function curry<P extends unknown[], R>(
+  f: (...args: P) => R,
+  arity: RequiredParameters<P>["length"]
+): Curried<P, R> {
+  const take = (taken: unknown[]): unknown =>
+    taken.length >= arity
+      ? f(...(taken as P))
+      : (arg: unknown) => take([...taken, arg]);
+  return take([]) as Curried<P, R>;
+}
+
+/** Fixes the first parameters of f: partial(f, a)(b) is f(a, b). */
+export function partial<P extends unknown[], Bound extends Partial<P>, R>(
+  f: (...args: P) => R,
+  ...bound: Bound
+): (...rest: Remaining<P, Bound>) => R {
+  return (...rest) => f(...([...bound, ...rest] as P));
+}
+
+export type MemoizeOptions<P extends unknown[], K> = {
+  /** Maps the arguments to a cache key. The first argument by default. */
+  key?: (...args: P) => K;
+  /** How many results to keep; the least recently used go first. */
+  maxSize?: number;
+};
+
+export type Memoized<P extends unknown[], R, K> = ((...args: P) => R) & {
+  readonly cache: Map<K, R>;
+};
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/**
+ * Caches f's results by key. A rejected promise is not kept, so an async
+ * function that failed is called again next time.
+ */
+export function memoize<P extends unknown[], R, K = P[0]>(
+  f: (...args: P) => R,
+  options: MemoizeOptions<P, K> = {}
+): Memoized<P, R, K> {
+  const { key = (...args: P) => args[0] as K, maxSize = Infinity } = options;
+  if (!(maxSize >= 1)) {
+    throw new RangeError(`maxSize must be at least 1, got ${maxSize}`);
+  }
+  const cache = new Map<K, R>();
+  const memoized = (...args: P): R => {
+    const k = key(...args);
+    if (cache.has(k)) {
+      // Move the entry to the end, which Map keeps as the most recent.
+      const value = cache.get(k) as R;
+      cache.delete(k);
+      cache.set(k, value);
+      return value;
+    }
+    const value = f(...args);
+    cache.set(k, value);
+    if (cache.size > maxSize) {
+      cache.delete(cache.keys().next().value);
+    }
+    if (isThenable(value)) {
+      // Thenables need not have catch, so the rejection is taken from then.
+      value.then(undefined, () => {
+        if (cache.get(k) === value) {
+          cache.delete(k);
+        }
+      });
+    }
+    return value;
+  };
+  return Object.assign(memoized, { cache });
+}
+
+/** Calls f the first time only; later calls return the first result. */
+export function once<P extends unknown[], R>(
+  f: (...args: P) => R
+): (...args: P) => R {
+  let result: { value: R } | undefined;
+  return (...args) => {
+    if (!result) {
+      result = { value: f(...args) };
+    }
+    return result.value;
+  };
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super("The call was cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+/** A call that has been put off, and the callers waiting for its result. */
+type Pending<P, R> = {
+  args: P;
+  waiting: { resolve: (value: R) => void; reject: (error: unknown) => void }[];
+};
+
+export type Delayed<P extends unknown[], R> = ((
+  ...args: P
+) => Promise<Awaited<R>>) & {
+  /** Drops the call waiting to be made, rejecting its promises. */
+  cancel(): void;
+};
+
+/**
+ * Calls f and settles every waiting promise with its result, whether it
+ * returns a value or a promise, or throws.
+ */
+function settle<P extends unknown[], R>(
+  f: (...args: P) => R,
+  { args, waiting }: Pending<P, Awaited<R>>
+) {
+  new Promise<Awaited<R>>((resolve) => resolve(f(...args) as Awaited<R>)).then(
+    (value) => waiting.forEach(({ resolve }) => resolve(value)),
+    (error) => waiting.forEach(({ reject }) => reject(error))
+  );
+}
+
+function wait<P, R>(pending: Pending<P, R>): Promise<R> {
+  return new Promise((resolve, reject) =>
+    pending.waiting.push({ resolve, reject })
+  );
+}
+
+/**
+ * Puts calls off until waitMs has passed without another one, then calls f
+ * once with the latest arguments. Every call in between resolves to that
+ * one result.
+ */
+export function debounce<P extends unknown[], R>(
+  f: (...args: P) => R,
+  waitMs: number
+): Delayed<P, R> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: Pending<P, Awaited<R>> | undefined;
+
+  const debounced = (...args: P) => {
+    clearTimeout(timer);
+    pending = { args, waiting: pending?.waiting ?? [] };
+    const promise = wait(pending);
+    timer = setTimeout(() => {
+      const call = pending as Pending<P, Awaited<R>>;
+      pending = undefined;
+      settle(f, call);
+    }, waitMs);
+    return promise;
+  };
+  const cancel = () => {
+    clearTimeout(timer);
+    pending?.waiting.forEach(({ reject }) => reject(new CancelledError()));
+    pending = undefined;
+  };
+  return Object.assign(debounced, { cancel });
+}
+
+/**
+ * Calls f at most once every waitMs. The first call runs at once; calls
+ * made while waiting are merged into one more call at the end of the wait,
+ * with the latest arguments, and resolve to its result.
+ */
+export function throttle<P extends unknown[], R>(
+  f: (...args: P) => R,
+  waitMs: number
+): Delayed<P, R> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: Pending<P, Awaited<R>> | undefined;
+
+  const start = () => {
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (pending) {
+        const call = pending;
+        pending = undefined;
+        settle(f, call);
+        start();
+      }
+    }, waitMs);
+  };
+  const throttled = (...args: P) => {
+    if (timer === undefined) {
+      const call = { args, waiting: [] };
+      const promise = wait<P, Awaited<R>>(call);
+      settle(f, call);
+      start();
+      return promise;
+    }
+    pending = { args, waiting: pending?.waiting ?? [] };
+    return wait(pending);
+  };
+  const cancel = () => {
+    pending?.waiting.forEach(({ reject }) => reject(new CancelledError()));
+    pending = undefined;
+  };
+  return Object.assign(throttled, { cancel });
+}
@@ -0,0 +1,264 @@
+/**
+ * Immutable 2D and 3D vectors, grown from the Point example in the lessons.
+ *
+ * A Vec3 has every property of a Vec2, so structural typing lets it be
+ * passed wherever a Vec2 is expected. That is how logPoint silently drops z.
+ * Here the functions look at the values instead: a 3D input gives a 3D
+ * result, and mixing a 2D with a 3D vector is an error rather than a quiet
+ * projection.
+ *
+ * Vectors are frozen plain objects, so { x: 1, y: 2 } works as an argument
+ * too, and results can be compared with toStrictEqual.
+ */
+
+export type Vec2 = { readonly x: number; readonly y: number };
+
+export type Vec3 = Vec2 & { readonly z: number };
+
+export type Vector = Vec2 | Vec3;
+
+export type BoundingBox<V extends Vector> = {
+  readonly min: V;
+  readonly max: V;
+};
+
+/** The tolerance equals uses unless it is given one. */
+export const EPSILON = 1e-9;
+
+export class GeometryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeometryError";
+  }
+}
+
+export function vec2(x: number, y: number): Vec2 {
+  return Object.freeze({ x, y });
+}
+
+export function vec3(x: number, y: number, z: number): Vec3 {
+  return Object.freeze({ x, y, z });
+}
+
+export function is3D(v: Vector): v is Vec3 {
+  return "z" in v && typeof v.z === "number";
+}
+
+function components(v: Vector): number[] {
+  return is3D(v) ? [v.x, v.y, v.z] : [v.x, v.y];
+}
+
+function fromComponents(values: number[]): Vector {
+  const [x, y, z] = values;
+  return values.length === 3 ? vec3(x, y, z) : vec2(x, y);
+}
+
+function checkDimensions(a: Vector, b: Vector) {
+  if (is3D(a) !== is3D(b)) {
+    const [left, right] = [a, b].map((v) => (is3D(v) ? "3D" : "2D"));
+    throw new GeometryError(`Cannot combine a ${left} and a ${right} vector`);
+  }
+}
+
+/** Applies f to matching components, rejecting vectors of different sizes. */
+function zip(a: Vector, b: Vector, f: (a: number, b: number) => number) {
+  checkDimensions(a, b);
+  const right = components(b);
+  return components(a).map((value, i) => f(value, right[i]));
+}
+
+/** Polygons lie in the plane; a z would be silently ignored, so reject it. */
+function checkPlanar(points: readonly Vector[]) {
+  if (points.some(is3D)) {
+    throw new GeometryError("Polygons take 2D points only");
+  }
+}
+
+export function add(a: Vec3, b: Vec3): Vec3;
+export function add(a: Vec2, b: Vec2): Vec2;
+export function add(a: Vector, b: Vector): Vector {
+  return fromComponents(zip(a, b, (x, y) => x + y));
+}
+
+export function subtract(a: Vec3, b: Vec3): Vec3;
+export function subtract(a: Vec2, b: Vec2): Vec2;
+export function subtract(a: Vector, b: Vector): Vector {
+  return fromComponents(zip(a, b, (x, y) => x - y));
+}
+
+export function scale(v: Vec3, factor: number): Vec3;
+export function scale(v: Vec2, factor: number): Vec2;
+export function scale(v: Vector, factor: number): Vector {
+  return fromComponents(components(v).map((value) => value * factor));
+}
+
+export function dot(a: Vector, b: Vector): number {
+  return zip(a, b, (x, y) => x * y).reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * The cross product. For 2D vectors this is the z component of their 3D
+ * cross product: positive when b is counterclockwise from a.
+ */
+export function cross(a: Vec3, b: Vec3): Vec3;
+export function cross(a: Vec2, b: Vec2): number;
+export function cross(a: Vector, b: Vector): Vec3 | number {
+  checkDimensions(a, b);
+  if (is3D(a) && is3D(b)) {
+    return vec3(
+      a.y * b.z - a.z * b.y,
+      a.z * b.x - a.x * b.z,
+      a.x * b.y - a.y * b.x
+    );
+  }
+  return a.x * b.y - a.y * b.x;
+}
+
+export function length(v: Vector): number {
+  return Math.hypot(...components(v));
+}
+
+/** The vector of length 1 in the same direction. */
+export function normalize(v: Vec3): Vec3;
+export function normalize(v: Vec2): Vec2;
+export function normalize(v: Vector): Vector {
+  const size = length(v);
+  if (size === 0) {
+    throw new GeometryError("Cannot normalize a zero vector");
+  }
+  return scale(v as Vec2, 1 / size);
+}
+
+export function distance(a: Vector, b: Vector): number {
+  return Math.hypot(...zip(a, b, (x, y) => x - y));
+}
+
+/**
+ * Compares components within epsilon, scaled up for large components so
+ * that rounding in, say, 1e12 + 0.1 does not make two vectors differ.
+ */
+export function equals(a: Vector, b: Vector, epsilon = EPSILON): boolean {
+  if (is3D(a) !== is3D(b)) {
+    return false;
+  }
+  const right = components(b);
+  return components(a).every((x, i) => {
+    const y = right[i];
+    return Math.abs(x - y) <= epsilon * Math.max(1, Math.abs(x), Math.abs(y));
+  });
+}
+
+/** Formats a vector as "x, y" or "x, y, z", like logPoint. */
+export function format(v: Vector, fractionDigits?: number): string {
+  return components(v)
+    .map((value) =>
+      fractionDigits === undefined
+        ? String(value)
+        : value.toFixed(fractionDigits)
+    )
+    .join(", ");
+}
+
+/** Parses "x, y" or "x, y, z"; the inverse of format. */
+export function parse(text: string): Vector {
+  const parts = text.split(",").map((part) => part.trim());
+  const values = parts.map(Number);
+  if (
+    (parts.length !== 2 && parts.length !== 3) ||
+    parts.some((part, i) => part === "" || !Number.isFinite(values[i]))
+  ) {
+    throw new GeometryError(`Expected "x, y" or "x, y, z" but got "${text}"`);
+  }
+  return fromComponents(values);
+}
+
+/** The smallest box holding every point. */
+export function boundingBox(points: readonly Vec3[]): BoundingBox<Vec3>;
+export function boundingBox(points: readonly Vec2[]): BoundingBox<Vec2>;
+export function boundingBox(points: readonly Vector[]): BoundingBox<Vector> {
+  if (points.length === 0) {
+    throw new GeometryError("A bounding box needs at least one point");
+  }
+  const [first, ...rest] = points;
+  let min = components(first);
+  let max = min;
+  for (const point of rest) {
+    min = zip(fromComponents(min), point, Math.min);
+    max = zip(fromComponents(max), point, Math.max);
+  }
+  return Object.freeze({ min: fromComponents(min), max: fromComponents(max) });
+}
+
+/** Whether the point lies inside the box or on its boundary. */
+export function boxContains<V extends Vector>(
+  box: BoundingBox<V>,
+  point: V
+): boolean {
+  checkDimensions(box.min, point);
+  const min = components(box.min);
+  const max = components(box.max);
+  return components(point).every(
+    (value, i) => min[i] <= value && value <= max[i]
+  );
+}
+
+/**
+ * The signed area of a simple polygon (shoelace formula): positive when its
+ * vertices run counterclockwise.
+ */
+export function signedArea(polygon: readonly Vec2[]): number {
+  checkPlanar(polygon);
+  let twice = 0;
+  polygon.forEach((vertex, i) => {
+    twice += cross(vertex, polygon[(i + 1) % polygon.length]);
+  });
+  return twice / 2;
+}
+
+export function polygonArea(polygon: readonly Vec2[]): number {
+  return Math.abs(signedArea(polygon));
+}
+
+/**
+ * Whether the point is within EPSILON of the segment, scaled up for long
+ * segments the way equals scales it for large components.
+ */
+function onSegment(point: Vec2, a: Vec2, b: Vec2): boolean {
+  const ab = subtract(b, a);
+  const ap = subtract(point, a);
+  const size = length(ab);
+  const tolerance = EPSILON * Math.max(1, size);
+  if (size === 0) {
+    return length(ap) <= tolerance;
+  }
+  // |ab × ap| / |ab| is the distance from the line through a and b, and
+  // ab · ap / |ab| how far along that line the point lies.
+  const across = Math.abs(cross(ab, ap)) / size;
+  const along = dot(ab, ap) / size;
+  return (
+    across <= tolerance && -tolerance <= along && along <= size + tolerance
+  );
+}
+
+/**
+ * Whether the point lies inside the polygon, by casting a ray to the right
+ * and counting the edges it crosses. Points on an edge count as inside.
+ */
+export function pointInPolygon(point: Vec2, polygon: readonly Vec2[]): boolean {
+  checkPlanar([point, ...polygon]);
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (onSegment(point, a, b)) {
+      return true;
+    }
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
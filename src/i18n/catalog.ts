@@ -0,0 +1,127 @@
+/**
+ * A message catalog holds one bundle of messages per locale. Looking up a
+ * message walks a fallback chain from the most specific locale to the default
+ * one, so "fr-CA" tries "fr-CA", then "fr", then the default locale.
+ *
+ * The catalog is typed by a map from message keys to their parameters, e.g.
+ * { greeting: { who: string } }, which makes t("greeting", { who }) check the
+ * key and the parameter names at compile time.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import { basename, extname, join } from "path";
+import { formatMessage, MessageParams } from "./message-format";
+
+export type Bundle = Record<string, string>;
+
+export type MessageMap = Record<string, MessageParams>;
+
+/** Messages without required parameters can be called without any. */
+export type TranslateArgs<P> = Partial<P> extends P
+  ? [params?: P]
+  : [params: P];
+
+export type Translator<M extends MessageMap> = <K extends keyof M & string>(
+  key: K,
+  ...args: TranslateArgs<M[K]>
+) => string;
+
+export class MissingMessageError extends Error {
+  readonly key: string;
+  readonly locale: string;
+
+  constructor(key: string, locale: string) {
+    super(`No message "${key}" for locale "${locale}" or its fallbacks`);
+    this.name = "MissingMessageError";
+    this.key = key;
+    this.locale = locale;
+  }
+}
+
+/** Only a bundle's own keys are messages, never names like "toString". */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function canonicalLocale(locale: string): string {
+  try {
+    return new Intl.Locale(locale).toString();
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * Reads every <locale>.json file in a directory, e.g. en.json and fr-CA.json.
+ */
+export function loadBundles(directory: string): Record<string, Bundle> {
+  const bundles: Record<string, Bundle> = {};
+  for (const file of readdirSync(directory)) {
+    if (extname(file) !== ".json") {
+      continue;
+    }
+    const locale = canonicalLocale(basename(file, ".json"));
+    bundles[locale] = JSON.parse(readFileSync(join(directory, file), "utf8"));
+  }
+  return bundles;
+}
+
+export class Catalog<M extends MessageMap> {
+  readonly defaultLocale: string;
+  private readonly bundles = new Map<string, Bundle>();
+
+  constructor(options: {
+    defaultLocale: string;
+    bundles?: Record<string, Bundle>;
+  }) {
+    this.defaultLocale = canonicalLocale(options.defaultLocale);
+    for (const [locale, bundle] of Object.entries(options.bundles ?? {})) {
+      this.addBundle(locale, bundle);
+    }
+  }
+
+  /** Adds messages for a locale, replacing any with the same key. */
+  addBundle(locale: string, bundle: Bundle): this {
+    const key = canonicalLocale(locale);
+    this.bundles.set(key, { ...this.bundles.get(key), ...bundle });
+    return this;
+  }
+
+  get locales(): string[] {
+    return [...this.bundles.keys()];
+  }
+
+  /**
+   * The loaded locales a lookup for this locale goes through, most specific
+   * first.
+   */
+  fallbackChain(locale: string): string[] {
+    const chain: string[] = [];
+    const subtags = canonicalLocale(locale).split("-");
+    for (let length = subtags.length; length > 0; length--) {
+      chain.push(subtags.slice(0, length).join("-"));
+    }
+    chain.push(this.defaultLocale);
+    return [...new Set(chain)].filter((candidate) =>
+      this.bundles.has(candidate)
+    );
+  }
+
+  translate<K extends keyof M & string>(
+    locale: string,
+    key: K,
+    ...[params]: TranslateArgs<M[K]>
+  ): string {
+    for (const candidate of this.fallbackChain(locale)) {
+      const bundle = this.bundles.get(candidate);
+      if (bundle && hasOwn(bundle, key)) {
+        return formatMessage(bundle[key], params, candidate);
+      }
+    }
+    throw new MissingMessageError(key, locale);
+  }
+
+  translator(locale: string): Translator<M> {
+    return (key, ...args) => this.translate(locale, key, ...args);
+  }
+}
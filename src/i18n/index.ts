@@ -0,0 +1,31 @@
+/**
+ * The project's own messages. Each key lists the parameters its message
+ * takes, in every locale.
+ */
+
+import { Catalog } from "./catalog";
+import en from "./locales/en.json";
+import fr from "./locales/fr.json";
+import frCA from "./locales/fr-CA.json";
+
+export type Messages = {
+  greeting: { who: string };
+  world: Record<never, never>;
+  visitors: { count: number };
+  arrival: { who: string; role: string };
+};
+
+export const DEFAULT_LOCALE = "en";
+
+export const catalog = new Catalog<Messages>({
+  defaultLocale: DEFAULT_LOCALE,
+  // The default bundle has to define every message.
+  bundles: {
+    en: en satisfies Record<keyof Messages, string>,
+    fr,
+    "fr-CA": frCA,
+  },
+});
+
+export * from "./catalog";
+export * from "./message-format";
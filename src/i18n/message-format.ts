@@ -0,0 +1,289 @@
+/**
+ * A subset of ICU MessageFormat:
+ *
+ * - simple arguments: "Hello {who}!"
+ * - plural: "{count, plural, =0 {no messages} one {# message} other {# messages}}"
+ *   where # is the count formatted for the locale, and categories come from
+ *   Intl.PluralRules
+ * - select: "{role, select, admin {An administrator} other {A visitor}}"
+ * - quoting: '' is a literal apostrophe and '{...}' is literal text
+ *
+ * Messages are parsed once and cached, as are the Intl formatters of each
+ * locale.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "argument"; name: string }
+  | { type: "pound" }
+  | {
+      type: "plural";
+      name: string;
+      options: Record<string, Node[]>;
+    }
+  | { type: "select"; name: string; options: Record<string, Node[]> };
+
+export class MessageFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MessageFormatError";
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** The option a selector picks, ignoring names inherited from Object. */
+function option(
+  node: { options: Record<string, Node[]> },
+  selector: string
+): Node[] | undefined {
+  return hasOwn(node.options, selector) ? node.options[selector] : undefined;
+}
+
+const NAME = /[A-Za-z_$][\w$]*/y;
+const SELECTOR = /=\d+|[A-Za-z_][\w-]*/y;
+
+class Parser {
+  private readonly source: string;
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse(): Node[] {
+    const nodes = this.parseNodes(false);
+    if (this.position < this.source.length) {
+      this.fail(`Unexpected "${this.source[this.position]}"`);
+    }
+    return nodes;
+  }
+
+  private fail(message: string): never {
+    throw new MessageFormatError(
+      `${message} at ${this.position + 1} in "${this.source}"`
+    );
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.position] ?? "")) {
+      this.position++;
+    }
+  }
+
+  private expect(character: string) {
+    this.skipWhitespace();
+    if (this.source[this.position] !== character) {
+      this.fail(`Expected "${character}"`);
+    }
+    this.position++;
+  }
+
+  private match(pattern: RegExp): string | undefined {
+    this.skipWhitespace();
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.source);
+    if (!match) {
+      return undefined;
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private parseNodes(inPlural: boolean): Node[] {
+    const nodes: Node[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) {
+        nodes.push({ type: "text", value: text });
+        text = "";
+      }
+    };
+
+    while (this.position < this.source.length) {
+      const character = this.source[this.position];
+      if (character === "}") {
+        break;
+      }
+      if (character === "{") {
+        flush();
+        nodes.push(this.parseArgument(inPlural));
+        continue;
+      }
+      if (character === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound" });
+        this.position++;
+        continue;
+      }
+      if (character === "'") {
+        text += this.parseQuoted();
+        continue;
+      }
+      text += character;
+      this.position++;
+    }
+    flush();
+    return nodes;
+  }
+
+  private parseQuoted(): string {
+    const next = this.source[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== "{" && next !== "}" && next !== "#") {
+      this.position++;
+      return "'";
+    }
+    const end = this.source.indexOf("'", this.position + 1);
+    if (end === -1) {
+      this.fail("Unterminated quote");
+    }
+    const quoted = this.source.slice(this.position + 1, end);
+    this.position = end + 1;
+    return quoted;
+  }
+
+  private parseArgument(inPlural: boolean): Node {
+    this.expect("{");
+    const name = this.match(NAME);
+    if (!name) {
+      this.fail("Expected an argument name");
+    }
+    this.skipWhitespace();
+    if (this.source[this.position] === "}") {
+      this.position++;
+      return { type: "argument", name };
+    }
+    this.expect(",");
+    const type = this.match(/plural|select/y);
+    if (!type) {
+      this.fail("Expected plural or select");
+    }
+    this.expect(",");
+    // No prototype, so a "__proto__" selector is an option like any other.
+    const options: Record<string, Node[]> = Object.create(null);
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.position] === "}") {
+        break;
+      }
+      const selector = this.match(SELECTOR);
+      if (!selector) {
+        this.fail("Expected a selector");
+      }
+      this.expect("{");
+      options[selector] = this.parseNodes(inPlural || type === "plural");
+      this.expect("}");
+    }
+    this.position++;
+    if (!hasOwn(options, "other")) {
+      this.fail(`The ${type} argument "${name}" needs an "other" option`);
+    }
+    return { type: type as "plural" | "select", name, options };
+  }
+}
+
+const cache = new Map<string, Node[]>();
+
+type Formatters = { number: Intl.NumberFormat; plural: Intl.PluralRules };
+
+const formatters = new Map<string, Formatters>();
+
+/** Intl formatters are slow to build, so each locale builds them once. */
+function formattersFor(locale: string): Formatters {
+  let found = formatters.get(locale);
+  if (!found) {
+    found = {
+      number: new Intl.NumberFormat(locale),
+      plural: new Intl.PluralRules(locale),
+    };
+    formatters.set(locale, found);
+  }
+  return found;
+}
+
+function parse(message: string): Node[] {
+  let nodes = cache.get(message);
+  if (!nodes) {
+    nodes = new Parser(message).parse();
+    cache.set(message, nodes);
+  }
+  return nodes;
+}
+
+/**
+ * Lists the argument names a message uses, e.g. to check that translations
+ * of a message all take the same parameters.
+ */
+export function argumentNames(message: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.type === "text" || node.type === "pound") {
+        continue;
+      }
+      names.add(node.name);
+      if (node.type !== "argument") {
+        Object.values(node.options).forEach(visit);
+      }
+    }
+  };
+  visit(parse(message));
+  return [...names];
+}
+
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale = "en"
+): string {
+  const { number, plural } = formattersFor(locale);
+  const value = (name: string) => {
+    if (!hasOwn(params, name)) {
+      throw new MessageFormatError(
+        `Missing value for "${name}" in "${message}"`
+      );
+    }
+    return params[name];
+  };
+
+  const render = (nodes: Node[], count?: number): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.value;
+          case "pound":
+            return number.format(count as number);
+          case "argument": {
+            const argument = value(node.name);
+            return typeof argument === "number"
+              ? number.format(argument)
+              : argument;
+          }
+          case "plural": {
+            const n = Number(value(node.name));
+            return render(
+              option(node, `=${n}`) ??
+                option(node, plural.select(n)) ??
+                node.options.other,
+              n
+            );
+          }
+          case "select": {
+            const key = String(value(node.name));
+            return render(option(node, key) ?? node.options.other, count);
+          }
+        }
+      })
+      .join("");
+
+  return render(parse(message));
+}
@@ -1,7 +1,13 @@
-const WORLD = "world";
+import { catalog, DEFAULT_LOCALE } from "./i18n";
 
-function hello(who: string = WORLD): string {
-  return `Hello ${who}! Yeauhh. Bout time the troops do it, stay true with another flow`;
+export type HelloOptions = {
+  /** A BCP 47 tag such as "fr-CA"; unknown locales fall back to English. */
+  locale?: string;
+};
+
+function hello(who?: string, options: HelloOptions = {}): string {
+  const t = catalog.translator(options.locale ?? DEFAULT_LOCALE);
+  return t("greeting", { who: who ?? t("world") });
 }
 
 export default hello;
@@ -0,0 +1,521 @@
+/**
+ * Structural diffing of JSON documents, expressed as JSON Patch (RFC 6902)
+ * operations, and an applyPatch that validates each operation before applying
+ * it. Locations inside a document are JSON Pointers (RFC 6901), such as
+ * "/j/c/x" or "/items/0".
+ */
+
+import { canonicalize } from "./canonical-json";
+
+export type Operation =
+  | { op: "add"; path: string; value: any }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: any }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: any };
+
+export type DiffOptions = {
+  /** Turn a removed member and an added member with equal values into a move. */
+  detectMoves?: boolean;
+  /** Turn an added value equal to an unchanged one into a copy. */
+  detectCopies?: boolean;
+  /** Precede every remove and replace with a test of the previous value. */
+  emitTests?: boolean;
+};
+
+export class JsonPatchError extends Error {
+  /** The JSON Pointer that could not be resolved or written. */
+  readonly path: string;
+  /** The position of the failing operation in the patch. */
+  readonly index: number;
+
+  constructor(message: string, path: string, index: number) {
+    super(`Operation ${index} failed at "${path}": ${message}`);
+    this.name = "JsonPatchError";
+    this.path = path;
+    this.index = index;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Member lookups go through own keys only, so a pointer such as
+ * "/__proto__/polluted" names a member, never Object.prototype.
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Defines a member even when its name is "__proto__". */
+function setMember(object: Record<string, any>, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  return canonicalize(a) === canonicalize(b);
+}
+
+function fingerprint(value: unknown): string | undefined {
+  return value === undefined ? undefined : canonicalize(value);
+}
+
+function deepCopy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(deepCopy) as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      setMember(copy, key, deepCopy(value[key]));
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Splits a JSON Pointer into its unescaped reference tokens.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new SyntaxError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => {
+      if (/~[^01]|~$/.test(token)) {
+        throw new SyntaxError(`Invalid escape in JSON Pointer "${pointer}"`);
+      }
+      return token.replace(/~1/g, "/").replace(/~0/g, "~");
+    });
+}
+
+/**
+ * Joins reference tokens into a JSON Pointer, escaping "~" and "/".
+ */
+export function formatPointer(tokens: (string | number)[]): string {
+  return tokens
+    .map(
+      (token) => `/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`
+    )
+    .join("");
+}
+
+type Change = {
+  operation: Operation;
+  /** Whether the change targets an object member rather than an array item. */
+  inObject: boolean;
+  previous?: any;
+};
+
+/**
+ * Compares two documents and returns the operations that turn source into
+ * target. Objects are compared member by member and arrays index by index;
+ * anything else that differs is replaced.
+ */
+export function diff(
+  source: unknown,
+  target: unknown,
+  options: DiffOptions = {}
+): Operation[] {
+  const {
+    detectMoves = true,
+    detectCopies = true,
+    emitTests = false,
+  } = options;
+  const changes: Change[] = [];
+  const unchanged = new Map<string, string>();
+
+  function walk(
+    a: any,
+    b: any,
+    tokens: (string | number)[],
+    inObject: boolean
+  ) {
+    const path = formatPointer(tokens);
+    if (isEqual(a, b)) {
+      if (typeof a === "object" && a !== null) {
+        const key = canonicalize(a);
+        if (!unchanged.has(key)) {
+          unchanged.set(key, path);
+        }
+      }
+      return;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const shared = Math.min(a.length, b.length);
+      for (let i = 0; i < shared; i++) {
+        walk(a[i], b[i], [...tokens, i], false);
+      }
+      // Removing from the end keeps the indices of earlier removals valid.
+      for (let i = a.length - 1; i >= shared; i--) {
+        changes.push({
+          operation: { op: "remove", path: formatPointer([...tokens, i]) },
+          inObject: false,
+          previous: a[i],
+        });
+      }
+      for (let i = shared; i < b.length; i++) {
+        const path = formatPointer([...tokens, i]);
+        changes.push({
+          operation: { op: "add", path, value: b[i] },
+          inObject: false,
+        });
+      }
+      return;
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      for (const key of Object.keys(a).sort()) {
+        if (hasOwn(b, key)) {
+          walk(a[key], b[key], [...tokens, key], true);
+          continue;
+        }
+        changes.push({
+          operation: { op: "remove", path: formatPointer([...tokens, key]) },
+          inObject: true,
+          previous: a[key],
+        });
+      }
+      for (const key of Object.keys(b).sort()) {
+        if (hasOwn(a, key)) {
+          continue;
+        }
+        changes.push({
+          operation: {
+            op: "add",
+            path: formatPointer([...tokens, key]),
+            value: b[key],
+          },
+          inObject: true,
+        });
+      }
+      return;
+    }
+
+    changes.push({
+      operation: { op: "replace", path, value: b },
+      inObject,
+      previous: a,
+    });
+  }
+
+  walk(source, target, [], false);
+
+  // Moves are only paired between object members: array indices shift as
+  // items come and go, so an array item's pointer is not stable enough.
+  const removals = new Map<string, Change[]>();
+  if (detectMoves) {
+    for (const change of changes) {
+      if (change.operation.op === "remove" && change.inObject) {
+        const key = fingerprint(change.previous);
+        if (key === undefined) {
+          continue;
+        }
+        removals.set(key, [...(removals.get(key) ?? []), change]);
+      }
+    }
+  }
+
+  const moves = new Map<Change, Change>();
+  const moved = new Set<Change>();
+  for (const change of changes) {
+    const { operation } = change;
+    if (operation.op !== "add" || !change.inObject) {
+      continue;
+    }
+    const key = fingerprint(operation.value);
+    const removal = key === undefined ? undefined : removals.get(key)?.shift();
+    if (removal) {
+      moves.set(change, removal);
+      moved.add(removal);
+    }
+  }
+
+  const operations: Operation[] = [];
+  for (const change of changes) {
+    const { operation } = change;
+    if (moved.has(change)) {
+      continue;
+    }
+    const removal = moves.get(change);
+    if (removal) {
+      const from = removal.operation.path;
+      if (emitTests) {
+        operations.push({ op: "test", path: from, value: removal.previous });
+      }
+      operations.push({ op: "move", from, path: operation.path });
+      continue;
+    }
+    if (operation.op === "add") {
+      const from =
+        detectCopies &&
+        typeof operation.value === "object" &&
+        operation.value !== null
+          ? unchanged.get(canonicalize(operation.value))
+          : undefined;
+      operations.push(
+        from === undefined
+          ? operation
+          : { op: "copy", from, path: operation.path }
+      );
+      continue;
+    }
+    if (emitTests) {
+      operations.push({
+        op: "test",
+        path: operation.path,
+        value: change.previous,
+      });
+    }
+    operations.push(operation);
+  }
+  return operations;
+}
+
+function validate(operation: any, index: number): Operation {
+  if (!isPlainObject(operation) || typeof operation.op !== "string") {
+    throw new JsonPatchError("operation must have an op", "", index);
+  }
+  if (typeof operation.path !== "string") {
+    throw new JsonPatchError(`${operation.op} requires a path`, "", index);
+  }
+  switch (operation.op) {
+    case "add":
+    case "replace":
+    case "test":
+      if (!("value" in operation)) {
+        throw new JsonPatchError(
+          `${operation.op} requires a value`,
+          operation.path,
+          index
+        );
+      }
+      break;
+    case "move":
+    case "copy":
+      if (typeof operation.from !== "string") {
+        throw new JsonPatchError(
+          `${operation.op} requires a from pointer`,
+          operation.path,
+          index
+        );
+      }
+      break;
+    case "remove":
+      break;
+    default:
+      throw new JsonPatchError(
+        `unknown op "${operation.op}"`,
+        operation.path,
+        index
+      );
+  }
+  return operation as Operation;
+}
+
+function tokensOf(pointer: string, index: number): string[] {
+  try {
+    return parsePointer(pointer);
+  } catch (error) {
+    throw new JsonPatchError((error as Error).message, pointer, index);
+  }
+}
+
+function arrayIndex(
+  array: any[],
+  token: string,
+  allowEnd: boolean,
+  pointer: string,
+  index: number
+): number {
+  if (allowEnd && token === "-") {
+    return array.length;
+  }
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new JsonPatchError(
+      `"${token}" is not an array index`,
+      pointer,
+      index
+    );
+  }
+  const position = Number(token);
+  const limit = allowEnd ? array.length : array.length - 1;
+  if (position > limit) {
+    throw new JsonPatchError(
+      `index ${position} is out of bounds`,
+      pointer,
+      index
+    );
+  }
+  return position;
+}
+
+function resolveParent(
+  document: any,
+  tokens: string[],
+  pointer: string,
+  index: number
+): any {
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false, pointer, index)];
+    } else if (isPlainObject(current) && hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      throw new JsonPatchError("path does not exist", pointer, index);
+    }
+  }
+  if (typeof current !== "object" || current === null) {
+    throw new JsonPatchError("parent is not a container", pointer, index);
+  }
+  return current;
+}
+
+function read(document: any, pointer: string, index: number): any {
+  const tokens = tokensOf(pointer, index);
+  if (tokens.length === 0) {
+    return document;
+  }
+  const parent = resolveParent(document, tokens, pointer, index);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, token, false, pointer, index)];
+  }
+  if (!hasOwn(parent, token)) {
+    throw new JsonPatchError("path does not exist", pointer, index);
+  }
+  return parent[token];
+}
+
+function insert(
+  document: any,
+  pointer: string,
+  value: any,
+  index: number
+): any {
+  const tokens = tokensOf(pointer, index);
+  if (tokens.length === 0) {
+    return value;
+  }
+  const parent = resolveParent(document, tokens, pointer, index);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, true, pointer, index), 0, value);
+  } else {
+    setMember(parent, token, value);
+  }
+  return document;
+}
+
+function remove(document: any, pointer: string, index: number): any {
+  const tokens = tokensOf(pointer, index);
+  if (tokens.length === 0) {
+    throw new JsonPatchError(
+      "cannot remove the whole document",
+      pointer,
+      index
+    );
+  }
+  const parent = resolveParent(document, tokens, pointer, index);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, false, pointer, index), 1);
+  } else if (hasOwn(parent, token)) {
+    delete parent[token];
+  } else {
+    throw new JsonPatchError("path does not exist", pointer, index);
+  }
+  return document;
+}
+
+/**
+ * Applies a patch to a copy of the document and returns the copy; the input is
+ * never modified. Operations are validated as they are reached, and the first
+ * one that fails raises a JsonPatchError naming its index and path.
+ */
+export function applyPatch<T = any>(document: T, patch: Operation[]): T {
+  let result: any = deepCopy(document);
+
+  patch.forEach((candidate, index) => {
+    const operation = validate(candidate, index);
+    switch (operation.op) {
+      case "add":
+        result = insert(
+          result,
+          operation.path,
+          deepCopy(operation.value),
+          index
+        );
+        break;
+      case "remove":
+        result = remove(result, operation.path, index);
+        break;
+      case "replace":
+        read(result, operation.path, index);
+        if (operation.path === "") {
+          result = deepCopy(operation.value);
+        } else {
+          remove(result, operation.path, index);
+          insert(result, operation.path, deepCopy(operation.value), index);
+        }
+        break;
+      case "move": {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new JsonPatchError(
+            `cannot move "${operation.from}" into itself`,
+            operation.path,
+            index
+          );
+        }
+        const value = read(result, operation.from, index);
+        if (operation.from !== operation.path) {
+          result = remove(result, operation.from, index);
+          result = insert(result, operation.path, value, index);
+        }
+        break;
+      }
+      case "copy": {
+        const value = deepCopy(read(result, operation.from, index));
+        result = insert(result, operation.path, value, index);
+        break;
+      }
+      case "test": {
+        const actual = read(result, operation.path, index);
+        if (!isEqual(actual, operation.value)) {
+          throw new JsonPatchError(
+            `expected ${JSON.stringify(
+              operation.value
+            )} but found ${JSON.stringify(actual)}`,
+            operation.path,
+            index
+          );
+        }
+        break;
+      }
+    }
+  });
+
+  return result;
+}
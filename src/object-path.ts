@@ -0,0 +1,232 @@
+/**
+ * Reads and writes nested values by dotted path, with the paths checked at
+ * compile time:
+ *
+ *   const fixture = { j: { c: { x: "x" } }, items: [{ name: "Bob" }] };
+ *   getPath(fixture, "j.c.x"); // string
+ *   getPath(fixture, "items.0.name"); // string
+ *   getPath(fixture, "j.c.y"); // does not compile
+ *
+ * Paths<T> is the union of every valid path into T, and PathValue<T, P> the
+ * type found at one of them. Array elements are addressed by index. A dot
+ * or backslash inside a key is escaped with a backslash, so the key "a.b"
+ * is the path "a\\.b" (written "a\\\\.b" in a string literal).
+ *
+ * setPath and deletePath do not change their input. They return a copy in
+ * which only the objects along the path are new; everything else is shared.
+ */
+
+/** Values a path stops at rather than looks into. */
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ((...args: any[]) => unknown);
+
+/** Escapes the dots and backslashes in a key, e.g. "a.b" becomes "a\\.b". */
+export type EscapeKey<K extends string> = string extends K
+  ? string
+  : K extends `${infer C}${infer Rest}`
+  ? `${C extends "." | "\\" ? `\\${C}` : C}${EscapeKey<Rest>}`
+  : "";
+
+/** Stops the recursion into deeply nested or recursive types. */
+type MaxDepth = 8;
+
+/** Every path into T, e.g. "j" | "j.c" | "j.c.x" | "items" | `items.${number}`. */
+export type Paths<T, Depth extends unknown[] = []> = 0 extends 1 & T
+  ? string
+  : Depth["length"] extends MaxDepth
+  ? never
+  : T extends Leaf
+  ? never
+  : T extends readonly (infer Item)[]
+  ? `${number}` | `${number}.${Paths<NonNullable<Item>, [...Depth, unknown]>}`
+  : {
+      [K in keyof T & (string | number)]-?:
+        | EscapeKey<`${K}`>
+        | `${EscapeKey<`${K}`>}.${Paths<
+            NonNullable<T[K]>,
+            [...Depth, unknown]
+          >}`;
+    }[keyof T & (string | number)];
+
+/**
+ * The type at path P in T. It includes undefined when the path goes
+ * through an optional property.
+ */
+export type PathValue<T, P extends string> = 0 extends 1 & T
+  ? any
+  : T extends readonly (infer Item)[]
+  ? P extends `${number}`
+    ? Item
+    : P extends `${number}.${infer Rest}`
+    ? PathValue<NonNullable<Item>, Rest> | Optional<Item>
+    : never
+  : {
+      [K in keyof T & (string | number)]: P extends EscapeKey<`${K}`>
+        ? T[K]
+        : P extends `${EscapeKey<`${K}`>}.${infer Rest}`
+        ? PathValue<NonNullable<T[K]>, Rest> | Optional<T[K]>
+        : never;
+    }[keyof T & (string | number)];
+
+type Optional<T> = undefined extends T ? undefined : never;
+
+export class PathError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${message} at "${path}"`);
+    this.name = "PathError";
+    this.path = path;
+  }
+}
+
+/** Keys that would reach Object.prototype instead of the object itself. */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Splits a path on its unescaped dots: "a\\.b.c" gives ["a.b", "c"]. */
+export function parsePath(path: string): string[] {
+  const segments: string[] = [];
+  let segment = "";
+  for (let i = 0; i < path.length; i++) {
+    const character = path[i];
+    if (character === "\\") {
+      if (i + 1 === path.length) {
+        throw new PathError(path, "Dangling escape");
+      }
+      segment += path[++i];
+    } else if (character === ".") {
+      segments.push(segment);
+      segment = "";
+    } else {
+      segment += character;
+    }
+  }
+  segments.push(segment);
+  return segments;
+}
+
+/** The inverse of parsePath. */
+export function formatPath(segments: readonly string[]): string {
+  return segments
+    .map((segment) => segment.replace(/[.\\]/g, (c) => `\\${c}`))
+    .join(".");
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp)
+  );
+}
+
+function hasOwn(value: unknown, key: string): boolean {
+  return isContainer(value) && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function copy<T extends object>(value: T): T {
+  return Array.isArray(value)
+    ? (value.slice() as T)
+    : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+export function getPath<T, P extends Paths<T>>(
+  object: T,
+  path: P
+): PathValue<T, P> {
+  let value: unknown = object;
+  for (const segment of parsePath(path)) {
+    if (!hasOwn(value, segment)) {
+      return undefined as PathValue<T, P>;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value as PathValue<T, P>;
+}
+
+/** Whether every property along the path exists, even if it is undefined. */
+export function hasPath<T>(object: T, path: Paths<T>): boolean {
+  let value: unknown = object;
+  for (const segment of parsePath(path)) {
+    if (!hasOwn(value, segment)) {
+      return false;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return true;
+}
+
+/**
+ * Returns a copy of object with the value at path replaced. Missing objects
+ * along the path are created, as arrays when the next segment is an index.
+ */
+export function setPath<T, P extends Paths<T>>(
+  object: T,
+  path: P,
+  value: PathValue<T, P>
+): T {
+  const segments = parsePath(path);
+  const set = (current: unknown, depth: number): unknown => {
+    if (depth === segments.length) {
+      return value;
+    }
+    const segment = segments[depth];
+    if (UNSAFE_KEYS.has(segment)) {
+      throw new PathError(path, `Refusing to set "${segment}"`);
+    }
+    if (current === undefined || current === null) {
+      current = /^\d+$/.test(segment) ? [] : {};
+    } else if (!isContainer(current)) {
+      throw new PathError(
+        path,
+        `Cannot set "${segment}" on a ${typeof current}`
+      );
+    }
+    const next = copy(current as Record<string, unknown>);
+    next[segment] = set(next[segment], depth + 1);
+    return next;
+  };
+  return set(object, 0) as T;
+}
+
+/**
+ * Returns a copy of object without the property at path. An array element
+ * is removed with the ones after it moving up. If there is nothing at path,
+ * object itself is returned.
+ */
+export function deletePath<T>(object: T, path: Paths<T>): T {
+  const segments = parsePath(path);
+  const remove = (current: unknown, depth: number): unknown => {
+    const segment = segments[depth];
+    if (!hasOwn(current, segment)) {
+      return current;
+    }
+    const container = current as Record<string, unknown>;
+    if (depth + 1 < segments.length) {
+      const child = remove(container[segment], depth + 1);
+      if (child === container[segment]) {
+        return current;
+      }
+      const next = copy(container);
+      next[segment] = child;
+      return next;
+    }
+    if (Array.isArray(container)) {
+      return container.filter((_, i) => String(i) !== segment);
+    }
+    const next = copy(container);
+    delete next[segment];
+    return next;
+  };
+  return remove(object, 0) as T;
+}
@@ -0,0 +1,87 @@
+/**
+ * Option<T> is either some value or none, an alternative to T | undefined
+ * that cannot be used without checking first, and so to the non-null
+ * assertion operator:
+ *
+ *   const port = fromNullable(process.env.PORT);
+ *   if (port.some) {
+ *     listen(Number(port.value));
+ *   }
+ *
+ * The functions here are meant to be imported together:
+ *
+ *   import * as option from "./option";
+ */
+
+import { err, ok, Result } from "./result";
+
+export type Some<T> = { readonly some: true; readonly value: T };
+
+export type None = { readonly some: false };
+
+export type Option<T> = Some<T> | None;
+
+export const none: None = Object.freeze({ some: false });
+
+export function some<T>(value: T): Some<T> {
+  return { some: true, value };
+}
+
+/** none for null and undefined, some for anything else. */
+export function fromNullable<T>(value: T | null | undefined): Option<T> {
+  return value === null || value === undefined ? none : some(value);
+}
+
+export function isSome<T>(option: Option<T>): option is Some<T> {
+  return option.some;
+}
+
+export function isNone<T>(option: Option<T>): option is None {
+  return !option.some;
+}
+
+export function map<T, U>(option: Option<T>, f: (value: T) => U): Option<U> {
+  return option.some ? some(f(option.value)) : none;
+}
+
+export function flatMap<T, U>(
+  option: Option<T>,
+  f: (value: T) => Option<U>
+): Option<U> {
+  return option.some ? f(option.value) : none;
+}
+
+export function filter<T, S extends T>(
+  option: Option<T>,
+  predicate: (value: T) => value is S
+): Option<S>;
+export function filter<T>(
+  option: Option<T>,
+  predicate: (value: T) => boolean
+): Option<T>;
+export function filter<T>(
+  option: Option<T>,
+  predicate: (value: T) => boolean
+): Option<T> {
+  return option.some && predicate(option.value) ? option : none;
+}
+
+export function unwrapOr<T, U>(option: Option<T>, fallback: U): T | U {
+  return option.some ? option.value : fallback;
+}
+
+export function match<T, U>(
+  option: Option<T>,
+  cases: { some: (value: T) => U; none: () => U }
+): U {
+  return option.some ? cases.some(option.value) : cases.none();
+}
+
+export function toNullable<T>(option: Option<T>): T | undefined {
+  return option.some ? option.value : undefined;
+}
+
+/** The value as an Ok, or none as an Err with the given error. */
+export function okOr<T, E>(option: Option<T>, error: E): Result<T, E> {
+  return option.some ? ok(option.value) : err(error);
+}
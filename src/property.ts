@@ -0,0 +1,417 @@
+/**
+ * Property-based testing: instead of a few hand-picked examples, a property
+ * is checked against many generated inputs.
+ *
+ *   forAll(tuple(integer(), integer()), ([x, y]) => add(x, y) === add(y, x));
+ *
+ * Generation is driven by a seeded random number generator, so a failure can
+ * be replayed by passing the seed it reports. When a property fails, its
+ * input is shrunk: simpler inputs are tried until none of them fails, so the
+ * counterexample reported is a minimal one such as [6] rather than the
+ * 40-element array that first failed.
+ *
+ * Each generated value carries its own shrinks as a lazy tree, which lets
+ * map, oneOf and frequency shrink their results without any extra work.
+ */
+
+import { inspect } from "util";
+
+/** A value and, lazily, the simpler values it can be shrunk to. */
+export type Tree<T> = {
+  value: T;
+  shrinks: () => Iterable<Tree<T>>;
+};
+
+/** The largest size a generator is asked for, in the last runs. */
+export const MAX_SIZE = 100;
+
+/** A small, fast, seeded generator (mulberry32). */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** A float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** An integer in [min, max]. */
+  integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+}
+
+export class Arbitrary<T> {
+  readonly generate: (random: Random, size: number) => Tree<T>;
+
+  constructor(generate: (random: Random, size: number) => Tree<T>) {
+    this.generate = generate;
+  }
+
+  map<U>(f: (value: T) => U): Arbitrary<U> {
+    return map(this, f);
+  }
+}
+
+function mapTree<T, U>(tree: Tree<T>, f: (value: T) => U): Tree<U> {
+  return {
+    value: f(tree.value),
+    shrinks: function* () {
+      for (const shrink of tree.shrinks()) {
+        yield mapTree(shrink, f);
+      }
+    },
+  };
+}
+
+function leaf<T>(value: T): Tree<T> {
+  return { value, shrinks: () => [] };
+}
+
+/** Shrinks towards target: first to it, then by halving the distance. */
+function integerTree(value: number, target: number): Tree<number> {
+  return {
+    value,
+    shrinks: function* () {
+      for (
+        let distance = value - target;
+        distance !== 0;
+        distance = Math.trunc(distance / 2)
+      ) {
+        yield integerTree(value - distance, target);
+      }
+    },
+  };
+}
+
+export function map<T, U>(
+  arbitrary: Arbitrary<T>,
+  f: (value: T) => U
+): Arbitrary<U> {
+  return new Arbitrary((random, size) =>
+    mapTree(arbitrary.generate(random, size), f)
+  );
+}
+
+export function constant<T>(value: T): Arbitrary<T> {
+  return new Arbitrary(() => leaf(value));
+}
+
+/**
+ * Integers between min and max inclusive. Without bounds, the magnitude grows
+ * with the size, up to Number.MAX_SAFE_INTEGER. Shrinks towards 0, or the
+ * bound nearest to it.
+ */
+export function integer(
+  options: { min?: number; max?: number } = {}
+): Arbitrary<number> {
+  const { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } =
+    options;
+  const bounded = options.min !== undefined || options.max !== undefined;
+  const target = Math.min(Math.max(0, min), max);
+  return new Arbitrary((random, size) => {
+    const limit = Math.min(max, Math.floor(2 ** ((53 * size) / MAX_SIZE)));
+    const value = bounded
+      ? random.integer(min, max)
+      : random.integer(-limit, limit);
+    return integerTree(value, target);
+  });
+}
+
+/** Finite floats whose magnitude grows with the size. Shrinks towards 0. */
+export function float(): Arbitrary<number> {
+  return new Arbitrary((random, size) => {
+    const magnitude = 10 ** ((random.next() * size) / 5);
+    const value = (random.next() * 2 - 1) * magnitude;
+    return {
+      value,
+      shrinks: function* () {
+        yield leaf(0);
+        if (!Number.isInteger(value)) {
+          yield integerTree(Math.trunc(value), 0);
+        }
+      },
+    };
+  });
+}
+
+export function boolean(): Arbitrary<boolean> {
+  return oneOf(constant(false), constant(true));
+}
+
+function arrayTree<T>(trees: Tree<T>[], minLength: number): Tree<T[]> {
+  return {
+    value: trees.map((tree) => tree.value),
+    shrinks: function* () {
+      // Remove runs of elements, the longest first...
+      for (
+        let count = trees.length - minLength;
+        count > 0;
+        count = Math.floor(count / 2)
+      ) {
+        for (let start = 0; start + count <= trees.length; start += count) {
+          yield arrayTree(
+            [...trees.slice(0, start), ...trees.slice(start + count)],
+            minLength
+          );
+        }
+      }
+      // ...then shrink the elements one at a time.
+      for (let i = 0; i < trees.length; i++) {
+        for (const shrink of trees[i].shrinks()) {
+          const shrunk = trees.slice();
+          shrunk[i] = shrink;
+          yield arrayTree(shrunk, minLength);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Arrays whose length grows with the size, up to maxLength. Shrinks by
+ * removing elements, then by shrinking the ones left.
+ */
+export function array<T>(
+  item: Arbitrary<T>,
+  options: { minLength?: number; maxLength?: number } = {}
+): Arbitrary<T[]> {
+  const { minLength = 0, maxLength = 20 } = options;
+  return new Arbitrary((random, size) => {
+    const longest = Math.max(
+      minLength,
+      Math.min(maxLength, Math.round((maxLength * size) / MAX_SIZE))
+    );
+    const length = random.integer(minLength, longest);
+    const trees = Array.from({ length }, () => item.generate(random, size));
+    return arrayTree(trees, minLength);
+  });
+}
+
+export function tuple<T extends unknown[]>(
+  ...items: { [K in keyof T]: Arbitrary<T[K]> }
+): Arbitrary<T> {
+  return new Arbitrary((random, size) => {
+    const trees = items.map((item) => item.generate(random, size));
+    // Every element is kept, so only the elements themselves shrink.
+    return arrayTree(trees, trees.length) as Tree<T>;
+  });
+}
+
+/** Strings of characters from the alphabet, shrinking towards its start. */
+export function string(
+  options: { alphabet?: string; minLength?: number; maxLength?: number } = {}
+): Arbitrary<string> {
+  const { alphabet = "abcdefghijklmnopqrstuvwxyz0123456789 ", ...lengths } =
+    options;
+  const characters = [...alphabet];
+  const character = integer({ min: 0, max: characters.length - 1 }).map(
+    (i) => characters[i]
+  );
+  return array(character, lengths).map((chars) => chars.join(""));
+}
+
+/** Dictionaries with generated keys, like a Record<string, T>. */
+export function record<T>(
+  value: Arbitrary<T>,
+  options: { key?: Arbitrary<string>; maxKeys?: number } = {}
+): Arbitrary<Record<string, T>> {
+  const { key = string({ maxLength: 8 }), maxKeys = 8 } = options;
+  return array(tuple(key, value), { maxLength: maxKeys }).map((entries) =>
+    Object.fromEntries(entries)
+  );
+}
+
+export function oneOf<T>(...arbitraries: Arbitrary<T>[]): Arbitrary<T> {
+  return frequency(
+    ...arbitraries.map((arbitrary): [number, Arbitrary<T>] => [1, arbitrary])
+  );
+}
+
+/**
+ * Picks one of the arbitraries, in proportion to its weight. Earlier ones
+ * count as simpler: a value is first shrunk to one of theirs.
+ */
+export function frequency<T>(
+  ...choices: [weight: number, arbitrary: Arbitrary<T>][]
+): Arbitrary<T> {
+  const total = choices.reduce((sum, [weight]) => sum + weight, 0);
+  return new Arbitrary((random, size) => {
+    let pick = random.next() * total;
+    const index = choices.findIndex(([weight]) => (pick -= weight) < 0);
+    const chosen = index === -1 ? choices.length - 1 : index;
+    const tree = choices[chosen][1].generate(random, size);
+    // The simpler choices are only generated when shrinking, from their own
+    // seed, so they do not change the values generated after this one.
+    const seed = random.integer(0, 2 ** 32 - 1);
+    return {
+      value: tree.value,
+      shrinks: function* () {
+        const simpler = new Random(seed);
+        for (const [, arbitrary] of choices.slice(0, chosen)) {
+          yield arbitrary.generate(simpler, size);
+        }
+        yield* tree.shrinks();
+      },
+    };
+  });
+}
+
+/**
+ * A recursive structure: build is given the arbitrary for the nested values,
+ * which is only base once maxDepth levels are reached.
+ */
+export function recursive<T>(
+  base: Arbitrary<T>,
+  build: (nested: Arbitrary<T>) => Arbitrary<T>,
+  maxDepth = 3
+): Arbitrary<T> {
+  let arbitrary = base;
+  for (let depth = 0; depth < maxDepth; depth++) {
+    arbitrary = frequency([1, base], [1, build(arbitrary)]);
+  }
+  return arbitrary;
+}
+
+/** JSON-compatible values: primitives, arrays and nested objects. */
+export function json(maxDepth = 3): Arbitrary<unknown> {
+  const primitive = oneOf<unknown>(
+    constant(null),
+    boolean(),
+    integer(),
+    float(),
+    string()
+  );
+  return recursive(
+    primitive,
+    (nested) => oneOf<unknown>(array(nested, { maxLength: 5 }), record(nested)),
+    maxDepth
+  );
+}
+
+export type CheckOptions = {
+  /** Replays the runs of an earlier failure. Random by default. */
+  seed?: number;
+  runs?: number;
+  maxShrinks?: number;
+};
+
+export type CheckResult<T> =
+  | { ok: true; seed: number; runs: number }
+  | {
+      ok: false;
+      seed: number;
+      runs: number;
+      /** The input that first failed, before shrinking. */
+      original: T;
+      counterexample: T;
+      shrinks: number;
+      error: unknown;
+    };
+
+/** A predicate fails by returning false or by throwing. */
+export type Predicate<T> = (value: T) => boolean | void;
+
+function failure<T>(
+  predicate: Predicate<T>,
+  value: T
+): { error: unknown } | undefined {
+  try {
+    return predicate(value) === false
+      ? { error: new Error("The property returned false") }
+      : undefined;
+  } catch (error) {
+    return { error };
+  }
+}
+
+export function check<T>(
+  arbitrary: Arbitrary<T>,
+  predicate: Predicate<T>,
+  options: CheckOptions = {}
+): CheckResult<T> {
+  const {
+    seed = Math.floor(Math.random() * 2 ** 32),
+    runs = 100,
+    maxShrinks = 1000,
+  } = options;
+  const random = new Random(seed);
+
+  for (let run = 1; run <= runs; run++) {
+    const size = Math.round((MAX_SIZE * run) / runs);
+    let tree = arbitrary.generate(random, size);
+    let failed = failure(predicate, tree.value);
+    if (!failed) {
+      continue;
+    }
+
+    const original = tree.value;
+    let shrinks = 0;
+    search: while (shrinks < maxShrinks) {
+      for (const candidate of tree.shrinks()) {
+        const candidateFailed = failure(predicate, candidate.value);
+        if (candidateFailed) {
+          tree = candidate;
+          failed = candidateFailed;
+          shrinks++;
+          continue search;
+        }
+      }
+      break;
+    }
+    return {
+      ok: false,
+      seed,
+      runs: run,
+      original,
+      counterexample: tree.value,
+      shrinks,
+      error: failed.error,
+    };
+  }
+  return { ok: true, seed, runs };
+}
+
+export class PropertyError<T> extends Error {
+  readonly seed: number;
+  readonly counterexample: T;
+
+  constructor(result: Extract<CheckResult<T>, { ok: false }>) {
+    const cause =
+      result.error instanceof Error
+        ? result.error.message
+        : String(result.error);
+    super(
+      [
+        `Property failed after ${result.runs} runs with seed ${result.seed}; replay with { seed: ${result.seed} }`,
+        `Counterexample (after ${result.shrinks} shrinks): ${inspect(
+          result.counterexample,
+          { depth: null }
+        )}`,
+        cause,
+      ].join("\n")
+    );
+    this.name = "PropertyError";
+    this.seed = result.seed;
+    this.counterexample = result.counterexample;
+  }
+}
+
+/** Like check, but throws a PropertyError, e.g. to fail a jest test. */
+export function forAll<T>(
+  arbitrary: Arbitrary<T>,
+  predicate: Predicate<T>,
+  options?: CheckOptions
+): void {
+  const result = check(arbitrary, predicate, options);
+  if (!result.ok) {
+    throw new PropertyError(result);
+  }
+}
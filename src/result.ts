@@ -0,0 +1,145 @@
+/**
+ * Result<T, E> is either a value or the error that prevented it, so failure
+ * is part of the return type instead of an exception nobody has to catch:
+ *
+ *   const parsed = tryCatch(() => JSON.parse(text));
+ *   if (parsed.ok) {
+ *     use(parsed.value);
+ *   } else {
+ *     report(parsed.error);
+ *   }
+ *
+ * Checking ok narrows the union, like CheckResult in property.ts. The
+ * functions here are meant to be imported together:
+ *
+ *   import * as result from "./result";
+ */
+
+export type Ok<T> = { readonly ok: true; readonly value: T };
+
+export type Err<E> = { readonly ok: false; readonly error: E };
+
+export type Result<T, E = Error> = Ok<T> | Err<E>;
+
+export function ok<T>(value: T): Ok<T> {
+  return { ok: true, value };
+}
+
+export function err<E>(error: E): Err<E> {
+  return { ok: false, error };
+}
+
+export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
+  return result.ok;
+}
+
+export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
+  return !result.ok;
+}
+
+export function map<T, E, U>(
+  result: Result<T, E>,
+  f: (value: T) => U
+): Result<U, E> {
+  return result.ok ? ok(f(result.value)) : result;
+}
+
+export function mapErr<T, E, F>(
+  result: Result<T, E>,
+  f: (error: E) => F
+): Result<T, F> {
+  return result.ok ? result : err(f(result.error));
+}
+
+export function flatMap<T, E, U, F>(
+  result: Result<T, E>,
+  f: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? f(result.value) : result;
+}
+
+export function unwrapOr<T, E, U>(result: Result<T, E>, fallback: U): T | U {
+  return result.ok ? result.value : fallback;
+}
+
+export function match<T, E, U>(
+  result: Result<T, E>,
+  cases: { ok: (value: T) => U; err: (error: E) => U }
+): U {
+  return result.ok ? cases.ok(result.value) : cases.err(result.error);
+}
+
+/**
+ * Runs f and catches what it throws. Anything thrown can be thrown, so the
+ * error is unknown unless onError turns it into something more specific.
+ */
+export function tryCatch<T>(f: () => T): Result<T, unknown>;
+export function tryCatch<T, E>(
+  f: () => T,
+  onError: (thrown: unknown) => E
+): Result<T, E>;
+export function tryCatch<T, E>(
+  f: () => T,
+  onError?: (thrown: unknown) => E
+): Result<T, unknown> {
+  try {
+    return ok(f());
+  } catch (thrown) {
+    return err(onError ? onError(thrown) : thrown);
+  }
+}
+
+/** Like tryCatch, for a promise: it resolves to a Result and never rejects. */
+export function fromPromise<T>(
+  promise: PromiseLike<T>
+): Promise<Result<T, unknown>>;
+export function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  onError: (thrown: unknown) => E
+): Promise<Result<T, E>>;
+export async function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  onError?: (thrown: unknown) => E
+): Promise<Result<T, unknown>> {
+  try {
+    return ok(await promise);
+  } catch (thrown) {
+    return err(onError ? onError(thrown) : thrown);
+  }
+}
+
+type ValueOf<R> = R extends Ok<infer T> ? T : never;
+type ErrorOf<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * The values of all the results, or the first error. A tuple of results
+ * gives a tuple of values: all([ok(1), ok("a")]) is Result<[number, string]>.
+ */
+export function all<R extends readonly Result<unknown, unknown>[]>(
+  results: readonly [...R]
+): Result<{ [K in keyof R]: ValueOf<R[K]> }, ErrorOf<R[number]>> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (!result.ok) {
+      return result as Err<ErrorOf<R[number]>>;
+    }
+    values.push(result.value);
+  }
+  return ok(values as { [K in keyof R]: ValueOf<R[K]> });
+}
+
+/** Splits results into their values and their errors, keeping the order. */
+export function partition<T, E>(
+  results: readonly Result<T, E>[]
+): { values: T[]; errors: E[] } {
+  const values: T[] = [];
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.ok) {
+      values.push(result.value);
+    } else {
+      errors.push(result.error);
+    }
+  }
+  return { values, errors };
+}
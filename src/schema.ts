@@ -0,0 +1,334 @@
+/**
+ * Runtime validation for data whose shape TypeScript only knows statically.
+ * A schema is built once and both checks values at runtime and describes
+ * their static type, so the two cannot drift apart:
+ *
+ *   const UserSchema = object({ name: string(), id: number() });
+ *   type User = Infer<typeof UserSchema>; // { name: string; id: number }
+ *
+ *   UserSchema.parse({ name: "Bob", id: "1" }); // throws: id: Expected number, received string
+ *
+ * Object schemas drop unknown keys by default, the same way structural typing
+ * ignores them. A strict object schema reports them as errors instead.
+ */
+
+export type Path = (string | number)[];
+
+export type Issue = {
+  path: Path;
+  message: string;
+};
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: Issue[] };
+
+function formatPath(path: Path): string {
+  return path.length ? path.join(".") : "(root)";
+}
+
+export class SchemaError extends Error {
+  readonly issues: Issue[];
+
+  constructor(issues: Issue[]) {
+    super(
+      issues
+        .map((issue) => `${formatPath(issue.path)}: ${issue.message}`)
+        .join("\n")
+    );
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+const INVALID = Symbol("invalid");
+
+type Check<T> = (
+  value: unknown,
+  path: Path,
+  issues: Issue[]
+) => T | typeof INVALID;
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function mismatch(
+  expected: string,
+  value: unknown,
+  path: Path,
+  issues: Issue[]
+): typeof INVALID {
+  issues.push({
+    path,
+    message: `Expected ${expected}, received ${describeValue(value)}`,
+  });
+  return INVALID;
+}
+
+export class Schema<T> {
+  /** Only carries the static type; it has no runtime value. */
+  declare readonly type: T;
+  readonly isOptional: boolean = false;
+  readonly description: string;
+  protected readonly check: Check<T>;
+
+  constructor(description: string, check: Check<T>) {
+    this.description = description;
+    this.check = check;
+  }
+
+  /** @internal Validates a value nested at the given path. */
+  run(value: unknown, path: Path, issues: Issue[]): T | typeof INVALID {
+    return this.check(value, path, issues);
+  }
+
+  safeParse(value: unknown): ParseResult<T> {
+    const issues: Issue[] = [];
+    const data = this.run(value, [], issues);
+    if (issues.length || data === INVALID) {
+      return { success: false, issues };
+    }
+    return { success: true, data };
+  }
+
+  parse(value: unknown): T {
+    const result = this.safeParse(value);
+    if (!result.success) {
+      throw new SchemaError(result.issues);
+    }
+    return result.data;
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true;
+
+  constructor(inner: Schema<T>) {
+    super(`${inner.description} | undefined`, (value, path, issues) =>
+      value === undefined ? undefined : inner.run(value, path, issues)
+    );
+  }
+}
+
+export type Infer<S extends Schema<any>> = S["type"];
+
+type Shape = Record<string, Schema<any>>;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never;
+}[keyof S];
+
+export type InferShape<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Sets a data entry, even one named "__proto__", without touching prototypes. */
+function setEntry(object: object, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+export class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  readonly shape: S;
+  readonly isStrict: boolean;
+
+  constructor(shape: S, isStrict = false) {
+    super("object", (value, path, issues) => {
+      if (!isRecord(value)) {
+        return mismatch("object", value, path, issues);
+      }
+      const output: Record<string, unknown> = {};
+      let valid = true;
+      for (const key of Object.keys(shape)) {
+        const present = hasOwn(value, key);
+        const result = shape[key].run(
+          present ? value[key] : undefined,
+          [...path, key],
+          issues
+        );
+        if (result === INVALID) {
+          valid = false;
+        } else if (result !== undefined || present) {
+          setEntry(output, key, result);
+        }
+      }
+      if (isStrict) {
+        for (const key of Object.keys(value)) {
+          if (!hasOwn(shape, key)) {
+            issues.push({ path: [...path, key], message: "Unexpected key" });
+            valid = false;
+          }
+        }
+      }
+      return valid ? (output as InferShape<S>) : INVALID;
+    });
+    this.shape = shape;
+    this.isStrict = isStrict;
+  }
+
+  /** Returns the same schema, but reporting keys it does not describe. */
+  strict(): ObjectSchema<S> {
+    return new ObjectSchema(this.shape, true);
+  }
+}
+
+export function string(): Schema<string> {
+  return new Schema("string", (value, path, issues) =>
+    typeof value === "string" ? value : mismatch("string", value, path, issues)
+  );
+}
+
+export function number(): Schema<number> {
+  return new Schema("number", (value, path, issues) =>
+    typeof value === "number" && !Number.isNaN(value)
+      ? value
+      : mismatch("number", value, path, issues)
+  );
+}
+
+export function boolean(): Schema<boolean> {
+  return new Schema("boolean", (value, path, issues) =>
+    typeof value === "boolean"
+      ? value
+      : mismatch("boolean", value, path, issues)
+  );
+}
+
+export function literal<T extends string | number | boolean | null>(
+  expected: T
+): Schema<T> {
+  const description = JSON.stringify(expected);
+  return new Schema(description, (value, path, issues) => {
+    if (value === expected) {
+      return expected;
+    }
+    issues.push({
+      path,
+      message: `Expected ${description}, received ${
+        typeof value === "string" ? JSON.stringify(value) : describeValue(value)
+      }`,
+    });
+    return INVALID;
+  });
+}
+
+export function object<S extends Shape>(
+  shape: S,
+  options: { strict?: boolean } = {}
+): ObjectSchema<S> {
+  return new ObjectSchema(shape, options.strict);
+}
+
+export function array<T>(items: Schema<T>): Schema<T[]> {
+  return new Schema(`${items.description}[]`, (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      return mismatch("array", value, path, issues);
+    }
+    let valid = true;
+    const output = value.map((item, index) => {
+      const result = items.run(item, [...path, index], issues);
+      valid = valid && result !== INVALID;
+      return result;
+    });
+    return valid ? (output as T[]) : INVALID;
+  });
+}
+
+/**
+ * A dictionary with any string keys, like an index signature
+ * `{ [key: string]: T }`.
+ */
+export function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return new Schema(
+    `Record<string, ${values.description}>`,
+    (value, path, issues) => {
+      if (!isRecord(value)) {
+        return mismatch("object", value, path, issues);
+      }
+      let valid = true;
+      const output: Record<string, T> = {};
+      for (const key of Object.keys(value)) {
+        const result = values.run(value[key], [...path, key], issues);
+        if (result === INVALID) {
+          valid = false;
+        } else {
+          setEntry(output, key, result);
+        }
+      }
+      return valid ? output : INVALID;
+    }
+  );
+}
+
+export function tuple<T extends Schema<any>[]>(
+  ...items: T
+): Schema<{ [K in keyof T]: Infer<T[K]> }> {
+  type Output = { [K in keyof T]: Infer<T[K]> };
+  const description = `[${items.map((item) => item.description).join(", ")}]`;
+  return new Schema(description, (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      return mismatch(description, value, path, issues);
+    }
+    if (value.length !== items.length) {
+      issues.push({
+        path,
+        message: `Expected ${items.length} items, received ${value.length}`,
+      });
+      return INVALID;
+    }
+    let valid = true;
+    const output = items.map((item, index) => {
+      const result = item.run(value[index], [...path, index], issues);
+      valid = valid && result !== INVALID;
+      return result;
+    });
+    return valid ? (output as Output) : INVALID;
+  });
+}
+
+/**
+ * Accepts a value matching any of the options, trying them in order. When
+ * none matches, a single issue lists what was expected.
+ */
+export function union<T extends Schema<any>[]>(
+  ...options: T
+): Schema<Infer<T[number]>> {
+  const description = options.map((option) => option.description).join(" | ");
+  return new Schema(description, (value, path, issues) => {
+    for (const option of options) {
+      const optionIssues: Issue[] = [];
+      const result = option.run(value, path, optionIssues);
+      if (result !== INVALID && optionIssues.length === 0) {
+        return result;
+      }
+    }
+    return mismatch(description, value, path, issues);
+  });
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return schema.optional();
+}
@@ -0,0 +1,350 @@
+/**
+ * Lazy pipelines over iterables. Where myMap, filter and join in the lessons
+ * build a whole array at every step, a Seq only pulls the values it needs, one
+ * at a time, so it works on large and even infinite sources:
+ *
+ *   seq(range({ start: 1, end: Infinity }))
+ *     .filter((n) => n % 7 === 0)
+ *     .take(3)
+ *     .join(", "); // "7, 14, 21"
+ *
+ * Seq wraps an Iterable; AsyncSeq wraps an AsyncIterable (or an Iterable of
+ * promises) and accepts callbacks that return promises.
+ */
+
+type Awaitable<T> = T | Promise<T>;
+
+export class Seq<T> implements Iterable<T> {
+  private readonly source: Iterable<T>;
+
+  constructor(source: Iterable<T>) {
+    this.source = source;
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]();
+  }
+
+  map<TOutput>(f: (item: T, index: number) => TOutput): Seq<TOutput> {
+    const source = this.source;
+    return new Seq({
+      *[Symbol.iterator]() {
+        let index = 0;
+        for (const item of source) {
+          yield f(item, index++);
+        }
+      },
+    });
+  }
+
+  filter<S extends T>(f: (item: T, index: number) => item is S): Seq<S>;
+  filter(f: (item: T, index: number) => boolean): Seq<T>;
+  filter(f: (item: T, index: number) => boolean): Seq<T> {
+    const source = this.source;
+    return new Seq({
+      *[Symbol.iterator]() {
+        let index = 0;
+        for (const item of source) {
+          if (f(item, index++)) {
+            yield item;
+          }
+        }
+      },
+    });
+  }
+
+  flatMap<TOutput>(
+    f: (item: T, index: number) => Iterable<TOutput>
+  ): Seq<TOutput> {
+    const source = this.source;
+    return new Seq({
+      *[Symbol.iterator]() {
+        let index = 0;
+        for (const item of source) {
+          yield* f(item, index++);
+        }
+      },
+    });
+  }
+
+  take(count: number): Seq<T> {
+    const source = this.source;
+    return new Seq({
+      *[Symbol.iterator]() {
+        if (count <= 0) {
+          return;
+        }
+        let taken = 0;
+        for (const item of source) {
+          yield item;
+          if (++taken >= count) {
+            return;
+          }
+        }
+      },
+    });
+  }
+
+  chunk(size: number): Seq<T[]> {
+    assertChunkSize(size);
+    const source = this.source;
+    return new Seq({
+      *[Symbol.iterator]() {
+        let chunk: T[] = [];
+        for (const item of source) {
+          chunk.push(item);
+          if (chunk.length === size) {
+            yield chunk;
+            chunk = [];
+          }
+        }
+        if (chunk.length) {
+          yield chunk;
+        }
+      },
+    });
+  }
+
+  /**
+   * Pairs items with those of other iterables, stopping at the shortest.
+   */
+  zip<TOthers extends unknown[]>(
+    ...others: { [K in keyof TOthers]: Iterable<TOthers[K]> }
+  ): Seq<[T, ...TOthers]> {
+    const sources: Iterable<unknown>[] = [this.source, ...others];
+    return new Seq({
+      *[Symbol.iterator]() {
+        const iterators = sources.map((source) => source[Symbol.iterator]());
+        try {
+          for (;;) {
+            const results = iterators.map((iterator) => iterator.next());
+            if (results.some((result) => result.done)) {
+              return;
+            }
+            yield results.map((result) => result.value) as [T, ...TOthers];
+          }
+        } finally {
+          iterators.forEach((iterator) => iterator.return?.());
+        }
+      },
+    });
+  }
+
+  reduce<TAccumulator>(
+    f: (accumulator: TAccumulator, item: T, index: number) => TAccumulator,
+    initial: TAccumulator
+  ): TAccumulator {
+    let accumulator = initial;
+    let index = 0;
+    for (const item of this.source) {
+      accumulator = f(accumulator, item, index++);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Like the join in the lessons, only available on sequences of strings or
+   * numbers.
+   */
+  join(this: Seq<number | string>, separator = ","): string {
+    let output = "";
+    let first = true;
+    for (const item of this.source) {
+      output += first ? `${item}` : `${separator}${item}`;
+      first = false;
+    }
+    return output;
+  }
+
+  toArray(): T[] {
+    return [...this.source];
+  }
+
+  toAsync(): AsyncSeq<T> {
+    return new AsyncSeq(this.source);
+  }
+}
+
+export class AsyncSeq<T> implements AsyncIterable<T> {
+  private readonly source: AsyncIterable<T> | Iterable<Awaitable<T>>;
+
+  constructor(source: AsyncIterable<T> | Iterable<Awaitable<T>>) {
+    this.source = source;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    // for await also unwraps the promises of a synchronous source.
+    for await (const item of this.source) {
+      yield item;
+    }
+  }
+
+  map<TOutput>(
+    f: (item: T, index: number) => Awaitable<TOutput>
+  ): AsyncSeq<TOutput> {
+    const source = this.source;
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const item of source) {
+          yield await f(item, index++);
+        }
+      },
+    });
+  }
+
+  filter<S extends T>(f: (item: T, index: number) => item is S): AsyncSeq<S>;
+  filter(f: (item: T, index: number) => Awaitable<boolean>): AsyncSeq<T>;
+  filter(f: (item: T, index: number) => Awaitable<boolean>): AsyncSeq<T> {
+    const source = this.source;
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const item of source) {
+          if (await f(item, index++)) {
+            yield item;
+          }
+        }
+      },
+    });
+  }
+
+  flatMap<TOutput>(
+    f: (
+      item: T,
+      index: number
+    ) => Awaitable<Iterable<TOutput> | AsyncIterable<TOutput>>
+  ): AsyncSeq<TOutput> {
+    const source = this.source;
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const item of source) {
+          yield* await f(item, index++);
+        }
+      },
+    });
+  }
+
+  take(count: number): AsyncSeq<T> {
+    const source = this.source;
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        if (count <= 0) {
+          return;
+        }
+        let taken = 0;
+        for await (const item of source) {
+          yield item;
+          if (++taken >= count) {
+            return;
+          }
+        }
+      },
+    });
+  }
+
+  chunk(size: number): AsyncSeq<T[]> {
+    assertChunkSize(size);
+    const source = this.source;
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        let chunk: T[] = [];
+        for await (const item of source) {
+          chunk.push(item);
+          if (chunk.length === size) {
+            yield chunk;
+            chunk = [];
+          }
+        }
+        if (chunk.length) {
+          yield chunk;
+        }
+      },
+    });
+  }
+
+  zip<TOthers extends unknown[]>(
+    ...others: {
+      [K in keyof TOthers]: AsyncIterable<TOthers[K]> | Iterable<TOthers[K]>;
+    }
+  ): AsyncSeq<[T, ...TOthers]> {
+    const sources = [this, ...others].map(
+      (source) => new AsyncSeq(source as AsyncIterable<unknown>)
+    );
+    return new AsyncSeq({
+      async *[Symbol.asyncIterator]() {
+        const iterators = sources.map((source) =>
+          source[Symbol.asyncIterator]()
+        );
+        try {
+          for (;;) {
+            const results = await Promise.all(
+              iterators.map((iterator) => iterator.next())
+            );
+            if (results.some((result) => result.done)) {
+              return;
+            }
+            yield results.map((result) => result.value) as [T, ...TOthers];
+          }
+        } finally {
+          await Promise.all(iterators.map((iterator) => iterator.return?.()));
+        }
+      },
+    });
+  }
+
+  async reduce<TAccumulator>(
+    f: (
+      accumulator: TAccumulator,
+      item: T,
+      index: number
+    ) => Awaitable<TAccumulator>,
+    initial: TAccumulator
+  ): Promise<TAccumulator> {
+    let accumulator = initial;
+    let index = 0;
+    for await (const item of this) {
+      accumulator = await f(accumulator, item, index++);
+    }
+    return accumulator;
+  }
+
+  join(this: AsyncSeq<number | string>, separator = ","): Promise<string> {
+    return this.reduce<string | undefined>(
+      (output, item) =>
+        output === undefined ? `${item}` : `${output}${separator}${item}`,
+      undefined
+    ).then((output) => output ?? "");
+  }
+
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+function assertChunkSize(size: number) {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`chunk size must be a positive integer, got ${size}`);
+  }
+}
+
+function isAsyncIterable<T>(source: unknown): source is AsyncIterable<T> {
+  return (
+    typeof source === "object" &&
+    source !== null &&
+    typeof (source as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+  );
+}
+
+export function seq<T>(source: AsyncIterable<T>): AsyncSeq<T>;
+export function seq<T>(source: Iterable<T>): Seq<T>;
+export function seq<T>(
+  source: Iterable<T> | AsyncIterable<T>
+): Seq<T> | AsyncSeq<T> {
+  return isAsyncIterable<T>(source) ? new AsyncSeq(source) : new Seq(source);
+}
@@ -0,0 +1,283 @@
+/**
+ * sortObjectKeys orders keys at runtime; this orders them in the source.
+ * Object literals and interfaces are found with the TypeScript compiler API
+ * and their members reordered by key, comparing UTF-16 code units like
+ * sortObjectKeys does.
+ *
+ * Only the members move. Each one takes its comments along: the ones on the
+ * lines above it, and one after it on the same line. A comment between two
+ * members on one line goes with the member after it. Separators, blank lines
+ * and indentation stay where they were, so the formatting is kept, except
+ * that a line comment moved before another member gets a line break after
+ * it.
+ *
+ * Members that cannot be moved safely stay in place and split the list into
+ * runs that are sorted separately: spreads (...rest overrides the keys
+ * before it), computed keys such as [key], and call, construct and index
+ * signatures in interfaces.
+ *
+ * With markedOnly, only lists after a "// @sorted" comment, and the lists
+ * nested inside them, are checked:
+ *
+ *   // @sorted
+ *   const colors = { blue: "#00f", green: "#0f0", red: "#f00" };
+ */
+
+import * as ts from "typescript";
+
+export type SortOptions = {
+  /** Only check lists marked with a // @sorted comment. */
+  markedOnly?: boolean;
+};
+
+export type Unsorted = {
+  /** 1-based line of the object literal or interface. */
+  line: number;
+  message: string;
+};
+
+type List = {
+  owner: ts.ObjectLiteralExpression | ts.InterfaceDeclaration;
+  /** The runs of members between the ones that cannot move. */
+  runs: { member: ts.Node; key: string }[][];
+};
+
+type Edit = { start: number; end: number; text: string };
+
+const MARKER = /^\/[/*]\s*@sorted\b/;
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function keyOf(member: ts.Node): string | undefined {
+  if (ts.isSpreadAssignment(member) || ts.isIndexSignatureDeclaration(member)) {
+    return undefined;
+  }
+  const name = (member as { name?: ts.PropertyName }).name;
+  if (
+    name &&
+    (ts.isIdentifier(name) ||
+      ts.isPrivateIdentifier(name) ||
+      ts.isStringLiteral(name) ||
+      ts.isNumericLiteral(name) ||
+      ts.isNoSubstitutionTemplateLiteral(name))
+  ) {
+    return name.text;
+  }
+  return undefined;
+}
+
+function toRuns(members: readonly ts.Node[]): List["runs"] {
+  const runs: List["runs"] = [[]];
+  for (const member of members) {
+    const key = keyOf(member);
+    if (key === undefined) {
+      runs.push([]);
+    } else {
+      runs[runs.length - 1].push({ member, key });
+    }
+  }
+  return runs.filter((run) => run.length > 1);
+}
+
+function isMarked(node: ts.Node, file: ts.SourceFile): boolean {
+  if (ts.isSourceFile(node)) {
+    // A marker at the top of the file belongs to its first statement.
+    return false;
+  }
+  const text = file.text;
+  return (ts.getLeadingCommentRanges(text, node.pos) ?? []).some((comment) =>
+    MARKER.test(text.slice(comment.pos, comment.end))
+  );
+}
+
+function collectLists(file: ts.SourceFile, options: SortOptions): List[] {
+  const lists: List[] = [];
+  const visit = (node: ts.Node, marked: boolean) => {
+    const checked = marked || isMarked(node, file);
+    if (checked && ts.isObjectLiteralExpression(node)) {
+      lists.push({ owner: node, runs: toRuns(node.properties) });
+    } else if (checked && ts.isInterfaceDeclaration(node)) {
+      lists.push({ owner: node, runs: toRuns(node.members) });
+    }
+    ts.forEachChild(node, (child) => visit(child, checked));
+  };
+  visit(file, !options.markedOnly);
+  return lists;
+}
+
+function firstInversion(list: List): [string, string] | undefined {
+  for (const run of list.runs) {
+    for (let i = 1; i < run.length; i++) {
+      if (compare(run[i - 1].key, run[i].key) > 0) {
+        return [run[i].key, run[i - 1].key];
+      }
+    }
+  }
+  return undefined;
+}
+
+function lineOf(file: ts.SourceFile, position: number): number {
+  return file.getLineAndCharacterOfPosition(position).line;
+}
+
+function indentOf(text: string, position: number): string {
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+}
+
+/**
+ * Splits a run of members into the parts that move (each member with its
+ * leading comments, and its trailing comment) and the parts that stay.
+ *
+ * A comment belongs to the member it shares a line with: one after a member
+ * is its trailing comment, unless the next member follows on the same line,
+ * in which case the comment leads into that member instead.
+ */
+function sortRun(run: List["runs"][number], file: ts.SourceFile): Edit {
+  const text = file.text;
+  const parts = run.map(({ member, key }, i) => {
+    const fullStart = member.getFullStart();
+    const bodyStart = member.getStart(file);
+    let bodyEnd = member.getEnd();
+    let afterSeparator = bodyEnd;
+    if (ts.isTypeElement(member) && /[;,]/.test(text[bodyEnd - 1])) {
+      // Interface members include their separator; leave it in place.
+      bodyEnd--;
+    } else {
+      afterSeparator += /^[ \t]*,/.exec(text.slice(bodyEnd))?.[0].length ?? 0;
+    }
+    // Comments on the line the member's trivia starts on belong to the
+    // member before it (or to the opening brace), unless the member itself
+    // starts on that line too.
+    // The compiler API counts comments on the same line as the token before
+    // as that token's trailing comments, so ask for both kinds.
+    const comments = [
+      ...(ts.getTrailingCommentRanges(text, fullStart) ?? []),
+      ...(ts.getLeadingCommentRanges(text, fullStart) ?? []),
+    ];
+    const leading = comments.find(
+      (comment) =>
+        lineOf(file, comment.pos) > lineOf(file, fullStart) ||
+        lineOf(file, comment.end) === lineOf(file, bodyStart)
+    );
+    let trailing = ts.getTrailingCommentRanges(text, afterSeparator) ?? [];
+    const next = run[i + 1]?.member.getStart(file);
+    if (
+      next !== undefined &&
+      trailing.length &&
+      lineOf(file, next) === lineOf(file, afterSeparator)
+    ) {
+      trailing = [];
+    }
+    const last = trailing[trailing.length - 1];
+    return {
+      key,
+      start: leading?.pos ?? bodyStart,
+      bodyEnd,
+      afterSeparator,
+      end: last?.end ?? afterSeparator,
+      endsWithLineComment: last?.kind === ts.SyntaxKind.SingleLineCommentTrivia,
+    };
+  });
+
+  const sorted = [...parts].sort((a, b) => compare(a.key, b.key));
+  let output = "";
+  let end = parts[parts.length - 1].end;
+  parts.forEach((slot, i) => {
+    const part = sorted[i];
+    output += text.slice(part.start, part.bodyEnd);
+    output += text.slice(slot.bodyEnd, slot.afterSeparator);
+    output += text.slice(part.afterSeparator, part.end);
+    const following = parts[i + 1];
+    const rest = text.slice(slot.end, following?.start);
+    // A line comment runs to the end of the line, so whatever followed the
+    // slot on its line has to move to the next one.
+    const spaces = /^[ \t]*/.exec(rest)?.[0] ?? "";
+    const endsLine =
+      /^[ \t]*\r?\n/.test(rest) || (!following && rest.trim() === "");
+    const breakLine = part.endsWithLineComment && !endsLine;
+    if (following) {
+      output += breakLine
+        ? `\n${indentOf(text, following.start)}${rest.slice(spaces.length)}`
+        : rest;
+    } else if (breakLine) {
+      output += `\n${indentOf(text, parts[0].start)}`;
+      end += spaces.length;
+    }
+  });
+  return { start: parts[0].start, end, text: output };
+}
+
+function parse(text: string, fileName: string): ts.SourceFile {
+  const kind = fileName.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    kind
+  );
+}
+
+/** Lists the object literals and interfaces whose members are out of order. */
+export function findUnsorted(
+  text: string,
+  fileName: string,
+  options: SortOptions = {}
+): Unsorted[] {
+  const file = parse(text, fileName);
+  return collectLists(file, options).flatMap((list) => {
+    const inversion = firstInversion(list);
+    if (!inversion) {
+      return [];
+    }
+    const what = ts.isInterfaceDeclaration(list.owner)
+      ? `interface ${list.owner.name.text} members`
+      : "object literal keys";
+    return [
+      {
+        line: lineOf(file, list.owner.getStart(file)) + 1,
+        message: `${what} are not sorted: "${inversion[0]}" should come before "${inversion[1]}"`,
+      },
+    ];
+  });
+}
+
+/**
+ * Returns the source with the members of its object literals and interfaces
+ * sorted. Nested lists are sorted from the inside out: each pass sorts the
+ * unsorted lists with no unsorted list inside them, whose edits cannot
+ * overlap, until none are left.
+ */
+export function sortMembers(
+  text: string,
+  fileName: string,
+  options: SortOptions = {}
+): string {
+  for (;;) {
+    const file = parse(text, fileName);
+    const unsorted = collectLists(file, options).filter(
+      (list) => firstInversion(list) !== undefined
+    );
+    if (unsorted.length === 0) {
+      return text;
+    }
+    const innermost = unsorted.filter(
+      (list) =>
+        !unsorted.some(
+          (other) =>
+            other !== list &&
+            list.owner.pos <= other.owner.pos &&
+            other.owner.end <= list.owner.end
+        )
+    );
+    const edits = innermost
+      .flatMap((list) => list.runs.map((run) => sortRun(run, file)))
+      .sort((a, b) => b.start - a.start);
+    for (const edit of edits) {
+      text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+    }
+  }
+}
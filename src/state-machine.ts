@@ -0,0 +1,263 @@
+/**
+ * Finite state machines whose states and events are literal unions, like
+ * WindowStates in the lessons:
+ *
+ *   type WindowState = "open" | "closed" | "minimized";
+ *   type WindowEvent = "minimize" | "restore" | "close" | "open";
+ *
+ *   const windowMachine = defineMachine<WindowState, WindowEvent>()({
+ *     initial: "closed",
+ *     context: undefined,
+ *     on: { close: "closed" },
+ *     states: {
+ *       open: { on: { minimize: "minimized" } },
+ *       minimized: { on: { restore: "open" } },
+ *       closed: { on: { open: "open" } },
+ *     },
+ *   });
+ *
+ * The table is checked at compile time: every state needs an entry, targets
+ * must be states and events must be events. The table's own type is kept
+ * too, so the events a state accepts are known. After machine.matches("open")
+ * narrows the machine, send("restore") does not compile, because an open
+ * window has no restore transition.
+ *
+ * A transition can be guarded, and can update the machine's context. A
+ * state's entry and exit hooks run as it is entered and left.
+ */
+
+export type Hook<S extends string, E extends string, C> = (
+  context: C,
+  transition: { from: S | undefined; to: S; event: E | undefined }
+) => void;
+
+export type TransitionObject<S extends string, E extends string, C> = {
+  target: S;
+  /** The transition is only taken when this returns true. */
+  guard?: (context: C, event: E) => boolean;
+  /** Returns the context for the target state. */
+  update?: (context: C, event: E) => C;
+};
+
+/** A target state, a transition, or transitions tried in order. */
+export type Transition<S extends string, E extends string, C> =
+  | S
+  | TransitionObject<S, E, C>
+  | readonly TransitionObject<S, E, C>[];
+
+export type TransitionTable<S extends string, E extends string, C> = {
+  readonly [K in E]?: Transition<S, E, C>;
+};
+
+export type StateConfig<S extends string, E extends string, C> = {
+  on?: TransitionTable<S, E, C>;
+  entry?: Hook<S, E, C>;
+  exit?: Hook<S, E, C>;
+};
+
+export type MachineConfig<S extends string, E extends string, C> = {
+  initial: S;
+  context: C;
+  /** Transitions available in every state, unless the state overrides them. */
+  on?: TransitionTable<S, E, C>;
+  states: { readonly [K in S]: StateConfig<S, E, C> };
+};
+
+type KeysOf<T> = T extends Record<infer K, unknown> ? K & string : never;
+
+/** The events that state K of a machine has a transition for. */
+export type EventsOf<Config, K> = Config extends {
+  states: infer States;
+}
+  ?
+      | (K extends keyof States
+          ? KeysOf<NonNullable<States[K]["on" & keyof States[K]]>>
+          : never)
+      | KeysOf<NonNullable<Config["on" & keyof Config]>>
+  : never;
+
+/** A machine's state and context, as plain data that survives JSON. */
+export type Snapshot<S extends string, C> = { state: S; context: C };
+
+export class StateMachineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StateMachineError";
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * The transition a table lists for event. Only its own keys count, so an
+ * event such as "toString" finds nothing rather than Object.prototype's.
+ */
+function lookup<T>(
+  table: Partial<Record<string, T>> | undefined,
+  event: string
+): T | undefined {
+  return table && hasOwn(table, event) ? table[event] : undefined;
+}
+
+function candidates<S extends string, E extends string, C>(
+  transition: Transition<S, E, C> | undefined
+): readonly TransitionObject<S, E, C>[] {
+  if (transition === undefined) {
+    return [];
+  }
+  if (typeof transition === "string") {
+    return [{ target: transition as S }];
+  }
+  return Array.isArray(transition)
+    ? transition
+    : [transition as TransitionObject<S, E, C>];
+}
+
+export class MachineDefinition<
+  S extends string,
+  E extends string,
+  C,
+  Config extends MachineConfig<S, E, C>
+> {
+  readonly config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  get states(): S[] {
+    return Object.keys(this.config.states) as S[];
+  }
+
+  /**
+   * The transition event would take from state with the given context, or
+   * undefined if there is none or every guard refuses.
+   */
+  select(
+    state: S,
+    event: E,
+    context: C
+  ): TransitionObject<S, E, C> | undefined {
+    return candidates(this.transitionFor(state, event)).find(
+      ({ guard }) => !guard || guard(context, event)
+    );
+  }
+
+  /** The state event leads to from state, ignoring guards and context. */
+  transition<K extends S>(state: K, event: EventsOf<Config, K> & E): S {
+    const [first] = candidates(this.transitionFor(state, event));
+    return first ? first.target : state;
+  }
+
+  private transitionFor(state: S, event: E): Transition<S, E, C> | undefined {
+    return (
+      lookup(this.config.states[state].on, event) ??
+      lookup(this.config.on, event)
+    );
+  }
+
+  /**
+   * Starts a machine in the initial state, running its entry hook, or in the
+   * state of a snapshot, without running any hooks.
+   */
+  start(snapshot?: Snapshot<S, C>): Machine<S, E, C, Config> {
+    if (snapshot) {
+      if (!hasOwn(this.config.states, snapshot.state)) {
+        throw new StateMachineError(`Unknown state "${snapshot.state}"`);
+      }
+      return new Machine(this, snapshot.state, snapshot.context);
+    }
+    const { initial, context } = this.config;
+    this.config.states[initial].entry?.(context, {
+      from: undefined,
+      to: initial,
+      event: undefined,
+    });
+    return new Machine(this, initial, context);
+  }
+}
+
+export class Machine<
+  S extends string,
+  E extends string,
+  C,
+  Config extends MachineConfig<S, E, C>,
+  Current extends S = S
+> {
+  readonly definition: MachineDefinition<S, E, C, Config>;
+  private current: S;
+  private data: C;
+
+  constructor(
+    definition: MachineDefinition<S, E, C, Config>,
+    state: S,
+    context: C
+  ) {
+    this.definition = definition;
+    this.current = state;
+    this.data = context;
+  }
+
+  get state(): Current {
+    return this.current as Current;
+  }
+
+  get context(): C {
+    return this.data;
+  }
+
+  /** Narrows the machine, so send only accepts the events of that state. */
+  matches<K extends S>(
+    state: K
+  ): this is Machine<S, E, C, Config, K & Current> {
+    return this.current === state;
+  }
+
+  can(event: E): boolean {
+    return this.definition.select(this.current, event, this.data) !== undefined;
+  }
+
+  /**
+   * Takes the transition for event, running the exit hook of the state left
+   * and the entry hook of the state entered. Returns false, changing
+   * nothing, when the state has no transition for it or its guards refuse.
+   */
+  send(event: EventsOf<Config, Current> & E): boolean {
+    const from = this.current;
+    const transition = this.definition.select(from, event, this.data);
+    if (!transition) {
+      return false;
+    }
+    const { states } = this.definition.config;
+    const to = transition.target;
+    const info = { from, to, event };
+    states[from].exit?.(this.data, info);
+    if (transition.update) {
+      this.data = transition.update(this.data, event);
+    }
+    this.current = to;
+    states[to].entry?.(this.data, info);
+    return true;
+  }
+
+  snapshot(): Snapshot<S, C> {
+    return { state: this.current, context: this.data };
+  }
+}
+
+/**
+ * Declares the states, events and context type of a machine; the returned
+ * function takes the machine's table. The two steps let the table's own
+ * type be inferred while S, E and C are given explicitly.
+ */
+export function defineMachine<
+  S extends string,
+  E extends string,
+  C = undefined
+>() {
+  return <const Config extends MachineConfig<S, E, C>>(
+    config: Config
+  ): MachineDefinition<S, E, C, Config> => new MachineDefinition(config);
+}
@@ -0,0 +1,33 @@
+/**
+ * Finds what keeps a lesson from reading well in the study guide: no
+ * References comment to send the reader further, and sections with nothing
+ * in them.
+ */
+
+import { Lesson } from "./lesson";
+
+export type LessonProblem = {
+  file: string;
+  /** 1-based, like an editor. */
+  line: number;
+  message: string;
+};
+
+export function checkLesson(lesson: Lesson): LessonProblem[] {
+  const { file } = lesson;
+  const problems: LessonProblem[] = [];
+  if (lesson.references === undefined) {
+    problems.push({ file, line: 1, message: "Missing a References comment" });
+  } else if (lesson.references.length === 0) {
+    problems.push({ file, line: 1, message: "The References list is empty" });
+  }
+  if (lesson.sections.length === 0) {
+    problems.push({ file, line: 1, message: "No it sections" });
+  }
+  for (const { title, line, blocks } of lesson.sections) {
+    if (blocks.length === 0) {
+      problems.push({ file, line, message: `Section "${title}" is empty` });
+    }
+  }
+  return problems;
+}
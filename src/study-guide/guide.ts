@@ -0,0 +1,223 @@
+/**
+ * Builds a study guide from lessons: an index page listing the lessons and
+ * every reference they cite, and one page per lesson with its sections,
+ * a table of contents and links to the previous and next lessons.
+ *
+ * Page names come from the lesson paths, relative to the directory the
+ * lessons have in common: src/ts/types/objects/index-signatures.test.ts
+ * among the other lessons under src/ts becomes types-objects-index-signatures.
+ */
+
+import { dirname, relative, sep } from "path";
+import { Lesson, Reference } from "./lesson";
+import { Document, renderHtml, renderMarkdown } from "./render";
+
+export type GuideFormat = "markdown" | "html";
+
+export type GuidePage = { path: string; text: string };
+
+/** A reference and the lessons that cite it. */
+export type CitedReference = Reference & { lessons: Lesson[] };
+
+const TITLE = "Study guide";
+
+const EXTENSIONS: Record<GuideFormat, string> = {
+  markdown: "md",
+  html: "html",
+};
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * The name of each lesson's page, without an extension. "index" is kept for
+ * the guide's own index page, and a name already taken gets a number, so
+ * a_b.test.ts and a-b.test.ts become a-b and a-b-2.
+ */
+export function pageNames(files: readonly string[]): string[] {
+  if (files.length === 0) {
+    return [];
+  }
+  const directories = files.map((file) => dirname(file).split(sep));
+  const common = directories.reduce((shared, directory) =>
+    shared.filter((part, i) => directory[i] === part)
+  );
+  const root = common.join(sep);
+  const taken = new Set(["index"]);
+  return files.map((file) => {
+    const slug =
+      slugify(relative(root, file).replace(/(\.test)?\.tsx?$/, "")) || "lesson";
+    let name = slug;
+    for (let count = 2; taken.has(name); count++) {
+      name = `${slug}-${count}`;
+    }
+    taken.add(name);
+    return name;
+  });
+}
+
+/** Every reference, once, in the order the lessons first cite it. */
+export function collectReferences(
+  lessons: readonly Lesson[]
+): CitedReference[] {
+  const byUrl = new Map<string, CitedReference>();
+  for (const lesson of lessons) {
+    for (const { url, note } of lesson.references ?? []) {
+      const cited = byUrl.get(url);
+      if (!cited) {
+        byUrl.set(url, { url, note, lessons: [lesson] });
+        continue;
+      }
+      cited.note ||= note;
+      if (!cited.lessons.includes(lesson)) {
+        cited.lessons.push(lesson);
+      }
+    }
+  }
+  return [...byUrl.values()];
+}
+
+function referenceLine({ url, note }: Reference): string {
+  return `- ${url}${note ? ` ${note}` : ""}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+type Link = { title: string; path: string };
+
+function lessonDocument(
+  lesson: Lesson,
+  nav: { index: Link; previous?: Link; next?: Link }
+): Document {
+  const { index, previous, next } = nav;
+  const links = [`[${index.title}](${index.path})`];
+  if (previous) {
+    links.push(`Previous: [${previous.title}](${previous.path})`);
+  }
+  if (next) {
+    links.push(`Next: [${next.title}](${next.path})`);
+  }
+
+  const ids = new Map<string, number>();
+  const sections = lesson.sections.map((section) => {
+    const slug = slugify(section.title) || "section";
+    const count = (ids.get(slug) ?? 0) + 1;
+    ids.set(slug, count);
+    return { section, id: count === 1 ? slug : `${slug}-${count}` };
+  });
+
+  const references = lesson.references ?? [];
+  return {
+    title: lesson.title,
+    blocks: [
+      { kind: "prose", text: links.join(" · ") },
+      ...(lesson.intro ? [{ kind: "prose" as const, text: lesson.intro }] : []),
+      { kind: "heading", text: "Contents", id: "contents" },
+      {
+        kind: "prose",
+        text: sections
+          .map(({ section, id }) => `- [${section.title}](#${id})`)
+          .join("\n"),
+      },
+      ...sections.flatMap(({ section, id }) => [
+        { kind: "heading" as const, text: section.title, id },
+        ...section.blocks,
+      ]),
+      { kind: "heading", text: "References", id: "references" },
+      {
+        kind: "prose",
+        text: references.length
+          ? references.map(referenceLine).join("\n")
+          : "None listed.",
+      },
+    ],
+  };
+}
+
+function indexDocument(
+  lessons: readonly Lesson[],
+  paths: readonly string[]
+): Document {
+  const references = collectReferences(lessons);
+  const sections = lessons.reduce(
+    (sum, lesson) => sum + lesson.sections.length,
+    0
+  );
+  return {
+    title: TITLE,
+    blocks: [
+      {
+        kind: "prose",
+        text: `${plural(lessons.length, "lesson")} in ${plural(
+          sections,
+          "section"
+        )}. Each section explains a topic next to the code that shows it, taken from the lesson's tests.`,
+      },
+      { kind: "heading", text: "Lessons", id: "lessons" },
+      {
+        kind: "prose",
+        text: lessons
+          .map(
+            (lesson, i) =>
+              `${i + 1}. [${lesson.title}](${paths[i]}) (${plural(
+                lesson.sections.length,
+                "section"
+              )})`
+          )
+          .join("\n"),
+      },
+      { kind: "heading", text: "References", id: "references" },
+      {
+        kind: "prose",
+        text: references.length
+          ? references
+              .map(
+                (reference) =>
+                  `${referenceLine(reference)} — cited by ${reference.lessons
+                    .map(
+                      (lesson) =>
+                        `[${lesson.title}](${paths[lessons.indexOf(lesson)]})`
+                    )
+                    .join(", ")}`
+              )
+              .join("\n")
+          : "None listed.",
+      },
+    ],
+  };
+}
+
+/** The pages of the guide, index first, with paths relative to its root. */
+export function buildGuide(
+  lessons: readonly Lesson[],
+  format: GuideFormat = "markdown"
+): GuidePage[] {
+  const extension = EXTENSIONS[format];
+  const render = format === "html" ? renderHtml : renderMarkdown;
+  const index = { title: TITLE, path: `index.${extension}` };
+  const paths = pageNames(lessons.map(({ file }) => file)).map(
+    (name) => `${name}.${extension}`
+  );
+  const link = (i: number): Link | undefined =>
+    lessons[i] && { title: lessons[i].title, path: paths[i] };
+
+  return [
+    { path: index.path, text: render(indexDocument(lessons, paths)) },
+    ...lessons.map((lesson, i) => ({
+      path: paths[i],
+      text: render(
+        lessonDocument(lesson, {
+          index,
+          previous: link(i - 1),
+          next: link(i + 1),
+        })
+      ),
+    })),
+  ];
+}
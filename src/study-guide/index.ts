@@ -0,0 +1,4 @@
+export * from "./check";
+export * from "./guide";
+export * from "./lesson";
+export * from "./render";
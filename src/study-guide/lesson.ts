@@ -0,0 +1,243 @@
+/**
+ * Reads a lesson: one of the test files under src/ts that teach a topic
+ * through comments and code. A lesson has a JSDoc header, a describe block
+ * whose it blocks are its sections, and a trailing comment listing its
+ * references:
+ *
+ *   /**
+ *    * References:
+ *    * - https://www.typescriptlang.org/docs/handbook/2/objects.html
+ *    *\/
+ *
+ * Inside a section, comments are explanations and statements are code, kept
+ * in source order. An "// @expect-error" annotation and the commented-out
+ * line it describes are code too, since they show what does not compile.
+ */
+
+import { basename } from "path";
+import * as ts from "typescript";
+
+/** Prose is Markdown-like text; code is TypeScript, dedented. */
+export type Block = { kind: "prose" | "code"; text: string };
+
+export type Section = {
+  title: string;
+  /** 1-based line of the it call. */
+  line: number;
+  blocks: Block[];
+};
+
+export type Reference = {
+  url: string;
+  /** Any text next to the URL, such as "(section 4.3.3)". */
+  note: string;
+};
+
+export type Lesson = {
+  file: string;
+  title: string;
+  /** The header comment, without its delimiters. */
+  intro: string;
+  sections: Section[];
+  /** Undefined when the lesson has no References comment. */
+  references: Reference[] | undefined;
+};
+
+const ANNOTATION = /^\/\/ @expect-error\b/;
+const REFERENCES = /^References:?\s*$/m;
+const LINK = /https?:\/\/\S+/;
+
+/** A comment or statement in a function body, in source order. */
+type Item = { kind: Block["kind"]; start: number; end: number; text?: string };
+
+function commentText(source: string, range: ts.CommentRange): string {
+  const text = source.slice(range.pos, range.end);
+  if (range.kind === ts.SyntaxKind.SingleLineCommentTrivia) {
+    return text.replace(/^\/\/ ?/, "");
+  }
+  return text
+    .replace(/^\/\*\*?/, "")
+    .replace(/\*\/$/, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+/** Removes the indentation the lines have in common. */
+function dedent(text: string): string {
+  const lines = text.split("\n");
+  const indents = lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => /^\s*/.exec(line)?.[0].length ?? 0);
+  const indent = Math.min(...indents);
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
+
+function commentItems(source: string, position: number): Item[] {
+  const ranges = ts.getLeadingCommentRanges(source, position) ?? [];
+  const items: Item[] = [];
+  for (let i = 0; i < ranges.length; i++) {
+    const range = ranges[i];
+    const text = commentText(source, range);
+    const isAnnotation =
+      range.kind === ts.SyntaxKind.SingleLineCommentTrivia &&
+      ANNOTATION.test(source.slice(range.pos, range.end));
+    if (isAnnotation) {
+      // The commented-out line after the annotation goes with it.
+      const next = ranges[i + 1];
+      const end =
+        next?.kind === ts.SyntaxKind.SingleLineCommentTrivia
+          ? ranges[++i].end
+          : range.end;
+      items.push({ kind: "code", start: range.pos, end });
+    } else {
+      items.push({ kind: "prose", start: range.pos, end: range.end, text });
+    }
+  }
+  return items;
+}
+
+/**
+ * Turns a function body into blocks: each comment is an explanation, and
+ * consecutive code is sliced from the source as one block, blank lines and
+ * trailing comments included.
+ */
+function bodyBlocks(source: string, body: ts.Block): Block[] {
+  const items: Item[] = [];
+  for (const statement of body.statements) {
+    items.push(...commentItems(source, statement.pos));
+    const trailing = ts.getTrailingCommentRanges(source, statement.end) ?? [];
+    items.push({
+      kind: "code",
+      start: statement.getStart(),
+      end: trailing.length ? trailing[trailing.length - 1].end : statement.end,
+    });
+  }
+  items.push(...commentItems(source, body.statements.end));
+
+  const blocks: Block[] = [];
+  for (let i = 0; i < items.length; ) {
+    const item = items[i];
+    if (item.kind === "prose") {
+      blocks.push({ kind: "prose", text: item.text ?? "" });
+      i++;
+      continue;
+    }
+    let end = item.end;
+    for (i++; i < items.length && items[i].kind === "code"; i++) {
+      end = items[i].end;
+    }
+    const lineStart = source.lastIndexOf("\n", item.start - 1) + 1;
+    const start =
+      source.slice(lineStart, item.start).trim() === ""
+        ? lineStart
+        : item.start;
+    blocks.push({ kind: "code", text: dedent(source.slice(start, end)) });
+  }
+
+  // Line comments in a row read as one paragraph.
+  return blocks.reduce<Block[]>((merged, block) => {
+    const last = merged[merged.length - 1];
+    if (last?.kind === "prose" && block.kind === "prose") {
+      last.text = `${last.text}\n${block.text}`;
+    } else {
+      merged.push({ ...block });
+    }
+    return merged;
+  }, []);
+}
+
+function callName(call: ts.CallExpression): string | undefined {
+  return ts.isIdentifier(call.expression) ? call.expression.text : undefined;
+}
+
+function stringArgument(call: ts.CallExpression): string | undefined {
+  const [first] = call.arguments;
+  return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+}
+
+function callbackBody(call: ts.CallExpression): ts.Block | undefined {
+  const callback = call.arguments[1];
+  return callback &&
+    (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback)) &&
+    ts.isBlock(callback.body)
+    ? callback.body
+    : undefined;
+}
+
+function parseReferences(text: string): Reference[] {
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("- "))
+    .flatMap((line) => {
+      const url = LINK.exec(line)?.[0];
+      if (url === undefined) {
+        return [];
+      }
+      const note = line.slice(2).replace(url, "").replace(/\s+/g, " ").trim();
+      return [{ url, note }];
+    });
+}
+
+export function parseLesson(source: string, file: string): Lesson {
+  const sourceFile = ts.createSourceFile(
+    file,
+    source,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const lesson: Lesson = {
+    file,
+    title: "",
+    intro: "",
+    sections: [],
+    references: undefined,
+  };
+
+  const topLevelComments = [
+    ...sourceFile.statements.map((statement) => statement.pos),
+    sourceFile.statements.end,
+  ].flatMap((position) =>
+    (ts.getLeadingCommentRanges(source, position) ?? []).map((range) => ({
+      range,
+      text: commentText(source, range),
+    }))
+  );
+  const header = topLevelComments.find(
+    ({ range, text }) =>
+      range.pos === 0 &&
+      source.startsWith("/**", range.pos) &&
+      !REFERENCES.test(text)
+  );
+  lesson.intro = header?.text ?? "";
+  const references = topLevelComments.find(({ text }) =>
+    REFERENCES.test(text.split("\n")[0])
+  );
+  lesson.references = references && parseReferences(references.text);
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const name = callName(node);
+      const title = stringArgument(node);
+      const body = callbackBody(node);
+      if (name === "describe" && title !== undefined && !lesson.title) {
+        lesson.title = title.replace(/:$/, "");
+      }
+      if ((name === "it" || name === "test") && title !== undefined && body) {
+        lesson.sections.push({
+          title,
+          line:
+            sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+          blocks: bodyBlocks(source, body),
+        });
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  lesson.title ||= basename(file).replace(/(\.test)?\.ts$/, "");
+  return lesson;
+}
@@ -0,0 +1,142 @@
+/**
+ * Writes study guide pages as Markdown or as standalone HTML.
+ *
+ * Prose is written in a small subset of Markdown: paragraphs separated by
+ * blank lines, "- " and "1. " list items, `code`, [links](url) and bare
+ * URLs. The Markdown renderer passes it through; the HTML renderer converts
+ * exactly that subset and escapes everything else.
+ */
+
+import { Block } from "./lesson";
+
+export type Heading = { kind: "heading"; text: string; id: string };
+
+export type Document = {
+  title: string;
+  blocks: (Block | Heading)[];
+};
+
+export function renderMarkdown(document: Document): string {
+  const blocks = document.blocks.map((block) => {
+    switch (block.kind) {
+      case "heading":
+        return `<a id="${block.id}"></a>\n\n## ${block.text}`;
+      case "prose":
+        return block.text;
+      case "code":
+        return `\`\`\`ts\n${block.text}\n\`\`\``;
+    }
+  });
+  return `${[`# ${document.title}`, ...blocks].join("\n\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(
+    /[&<>"]/g,
+    (character) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[character] ??
+      character)
+  );
+}
+
+const INLINE =
+  /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>]*[^\s<>.,;:)])/g;
+
+function inlineHtml(text: string): string {
+  let html = "";
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, label, href, url] = match;
+    const index = match.index ?? 0;
+    html += escapeHtml(text.slice(last, index));
+    if (code !== undefined) {
+      html += `<code>${escapeHtml(code)}</code>`;
+    } else {
+      const target = href ?? url;
+      html += `<a href="${escapeHtml(target)}">${escapeHtml(label ?? url)}</a>`;
+    }
+    last = index + whole.length;
+  }
+  return html + escapeHtml(text.slice(last));
+}
+
+const LIST_ITEM = /^(?:- |\d+\. )/;
+
+/** Indented lines continue the list item above them. */
+function listItems(lines: string[]): string[] | undefined {
+  const items: string[] = [];
+  for (const line of lines) {
+    if (LIST_ITEM.test(line)) {
+      items.push(line.replace(LIST_ITEM, ""));
+    } else if (/^\s/.test(line)) {
+      items[items.length - 1] += ` ${line.trim()}`;
+    } else {
+      return undefined;
+    }
+  }
+  return items;
+}
+
+function listHtml(items: string[], ordered: boolean): string {
+  const tag = ordered ? "ol" : "ul";
+  return `<${tag}>\n${items
+    .map((item) => `<li>${inlineHtml(item)}</li>`)
+    .join("\n")}\n</${tag}>`;
+}
+
+/** A paragraph can end in a list, as in "Highlights:\n1. ...". */
+function paragraphHtml(paragraph: string): string {
+  const lines = paragraph.split("\n");
+  const start = lines.findIndex((line) => LIST_ITEM.test(line));
+  const items = start === -1 ? undefined : listItems(lines.slice(start));
+  if (!items) {
+    return `<p>${inlineHtml(paragraph)}</p>`;
+  }
+  const list = listHtml(items, !lines[start].startsWith("- "));
+  return start === 0
+    ? list
+    : `<p>${inlineHtml(lines.slice(0, start).join("\n"))}</p>\n${list}`;
+}
+
+function proseHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraphHtml)
+    .join("\n");
+}
+
+const STYLE = [
+  "body { max-width: 50rem; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.5; }",
+  "pre { background: #f6f8fa; padding: 1rem; overflow-x: auto; }",
+  "code { font-family: ui-monospace, monospace; }",
+].join("\n");
+
+export function renderHtml(document: Document): string {
+  const blocks = document.blocks.map((block) => {
+    switch (block.kind) {
+      case "heading":
+        return `<h2 id="${block.id}">${escapeHtml(block.text)}</h2>`;
+      case "prose":
+        return proseHtml(block.text);
+      case "code":
+        return `<pre><code class="language-ts">${escapeHtml(
+          block.text
+        )}</code></pre>`;
+    }
+  });
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>\n${STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(document.title)}</h1>`,
+    ...blocks,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
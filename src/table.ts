@@ -0,0 +1,248 @@
+/**
+ * Lays rows of cells out as a plain-text table, with box-drawing borders
+ * or as a Markdown table:
+ *
+ *   renderTable([[1, "1"], [3, "Fizz"]], {
+ *     columns: [{ header: "n", align: "right" }, { header: "says" }],
+ *   });
+ *
+ *   ┌───┬──────┐
+ *   │ n │ says │
+ *   ├───┼──────┤
+ *   │ 1 │ 1    │
+ *   │ 3 │ Fizz │
+ *   └───┴──────┘
+ *
+ * Widths are measured in terminal columns with displayWidth, so CJK text
+ * and emoji, which take two columns, still line up. A column is as wide as
+ * its widest cell, within its minWidth and maxWidth. Longer cells are
+ * wrapped onto more lines, or cut short with an ellipsis.
+ */
+
+import { displayWidth, graphemes } from "./text";
+
+export type Alignment = "left" | "right" | "center";
+
+export type ColumnSpec = {
+  header?: string;
+  /** "left" by default. */
+  align?: Alignment;
+  minWidth?: number;
+  maxWidth?: number;
+  /** What to do with cells wider than maxWidth. "wrap" by default. */
+  overflow?: "wrap" | "truncate";
+  /** Spaces on either side of the cell. 1 by default. */
+  padding?: number;
+};
+
+export type TableStyle = "box" | "markdown";
+
+export type TableOptions = {
+  /** One spec per column; columns without one use the defaults. */
+  columns?: readonly ColumnSpec[];
+  /** "box" by default. */
+  style?: TableStyle;
+};
+
+export type Cell = string | number | bigint | boolean | null | undefined;
+
+type Column = Required<Omit<ColumnSpec, "header">>;
+
+const ELLIPSIS = "…";
+
+/** Pads text with spaces to width columns. Text that is wider is kept. */
+export function align(
+  text: string,
+  width: number,
+  alignment: Alignment = "left"
+): string {
+  const room = Math.max(0, width - displayWidth(text));
+  const left =
+    alignment === "right"
+      ? room
+      : alignment === "center"
+      ? Math.floor(room / 2)
+      : 0;
+  return " ".repeat(left) + text + " ".repeat(room - left);
+}
+
+/** Cuts text to at most width columns, ending it with an ellipsis. */
+export function clip(text: string, width: number): string {
+  if (displayWidth(text) <= width) {
+    return text;
+  }
+  let clipped = "";
+  let used = displayWidth(ELLIPSIS);
+  for (const grapheme of graphemes(text)) {
+    used += displayWidth(grapheme);
+    if (used > width) {
+      break;
+    }
+    clipped += grapheme;
+  }
+  return clipped + ELLIPSIS;
+}
+
+/** Splits a word wider than width into pieces, keeping graphemes whole. */
+function breakWord(word: string, width: number): string[] {
+  const pieces = [""];
+  for (const grapheme of graphemes(word)) {
+    const last = pieces[pieces.length - 1];
+    if (last && displayWidth(last + grapheme) > width) {
+      pieces.push(grapheme);
+    } else {
+      pieces[pieces.length - 1] = last + grapheme;
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Wraps text onto lines of at most width columns, breaking at spaces where
+ * it can and inside words where it must. Newlines in text are kept.
+ */
+export function wrap(text: string, width: number): string[] {
+  return text.split("\n").flatMap((paragraph) => {
+    const lines = [""];
+    for (const word of paragraph.split(" ").filter(Boolean)) {
+      const last = lines[lines.length - 1];
+      if (last && displayWidth(`${last} ${word}`) <= width) {
+        lines[lines.length - 1] = `${last} ${word}`;
+        continue;
+      }
+      const pieces = breakWord(word, width);
+      if (last) {
+        lines.push(...pieces);
+      } else {
+        lines.splice(lines.length - 1, 1, ...pieces);
+      }
+    }
+    return lines;
+  });
+}
+
+function checkSize(value: number, name: string, min = 0) {
+  if (!(Number.isInteger(value) || value === Infinity) || value < min) {
+    throw new RangeError(
+      `${name} must be an integer of at least ${min}, got ${value}`
+    );
+  }
+}
+
+function toColumn(spec: ColumnSpec = {}): Column {
+  const {
+    align = "left",
+    minWidth = 0,
+    maxWidth = Infinity,
+    overflow = "wrap",
+    padding = 1,
+  } = spec;
+  checkSize(minWidth, "minWidth");
+  checkSize(maxWidth, "maxWidth", 1);
+  checkSize(padding, "padding");
+  if (minWidth > maxWidth) {
+    throw new RangeError(
+      `minWidth ${minWidth} is larger than maxWidth ${maxWidth}`
+    );
+  }
+  return { align, minWidth, maxWidth, overflow, padding };
+}
+
+/** The lines a cell takes up in a column of the given width. */
+function layOut(text: string, column: Column, width: number): string[] {
+  return column.overflow === "wrap"
+    ? wrap(text, width)
+    : text.split("\n").map((line) => clip(line, width));
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+/** Renders rows as a table, one line per row of text, without a final newline. */
+export function renderTable(
+  rows: readonly (readonly Cell[])[],
+  options: TableOptions = {}
+): string {
+  const { columns: specs = [], style = "box" } = options;
+  const count = Math.max(0, specs.length, ...rows.map((row) => row.length));
+  const columns = Array.from({ length: count }, (_, i) => toColumn(specs[i]));
+  const hasHeader = specs.some((spec) => spec.header !== undefined);
+  const markdown = style === "markdown";
+
+  const textRows = [
+    ...(hasHeader || markdown ? [specs.map((spec) => spec.header ?? "")] : []),
+    ...rows.map((row) => row.map((cell) => (cell == null ? "" : String(cell)))),
+  ].map((row) =>
+    Array.from({ length: count }, (_, i) =>
+      markdown ? escapeMarkdown(row[i] ?? "") : row[i] ?? ""
+    )
+  );
+
+  // Lay each column out at its natural width, clamped, then widen it to
+  // its widest line, which is only wider when a grapheme could not fit.
+  const widths = columns.map((column, i) => {
+    const natural = Math.max(
+      markdown ? 3 : 0,
+      ...textRows.flatMap((row) => row[i].split("\n").map(displayWidth))
+    );
+    return Math.min(column.maxWidth, Math.max(column.minWidth, natural));
+  });
+  const cells = textRows.map((row) =>
+    row.map((text, i) => {
+      const lines = layOut(text, columns[i], widths[i]);
+      // A Markdown cell cannot span lines, so they are joined with <br>s.
+      return markdown ? [lines.join("<br>")] : lines;
+    })
+  );
+  cells.forEach((row) =>
+    row.forEach((lines, i) => {
+      widths[i] = Math.max(widths[i], ...lines.map(displayWidth));
+    })
+  );
+
+  const border = markdown ? "|" : "│";
+  const renderRow = (row: string[][]) => {
+    const height = Math.max(...row.map((lines) => lines.length));
+    return Array.from({ length: height }, (_, line) => {
+      const texts = row.map((lines, i) => {
+        const { align: alignment, padding } = columns[i];
+        const space = " ".repeat(padding);
+        return space + align(lines[line] ?? "", widths[i], alignment) + space;
+      });
+      return border + texts.join(border) + border;
+    });
+  };
+  const rule = (left: string, middle: string, right: string) =>
+    left +
+    widths
+      .map((width, i) => "─".repeat(width + 2 * columns[i].padding))
+      .join(middle) +
+    right;
+
+  const [header, ...body] = cells;
+  if (markdown) {
+    const separator = columns.map(({ align: alignment, padding }, i) => {
+      const dashes = "-".repeat(widths[i] + 2 * padding - 2);
+      return alignment === "left"
+        ? `:${dashes}-`
+        : alignment === "right"
+        ? `-${dashes}:`
+        : `:${dashes}:`;
+    });
+    return [
+      ...renderRow(header),
+      `|${separator.join("|")}|`,
+      ...body.flatMap(renderRow),
+    ].join("\n");
+  }
+  const lines = [rule("┌", "┬", "┐")];
+  if (hasHeader) {
+    lines.push(...renderRow(header), rule("├", "┼", "┤"));
+  }
+  for (const row of hasHeader ? body : cells) {
+    lines.push(...renderRow(row));
+  }
+  lines.push(rule("└", "┴", "┘"));
+  return lines.join("\n");
+}
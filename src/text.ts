@@ -0,0 +1,138 @@
+/**
+ * Text that is measured and cut by what a reader sees as one character.
+ *
+ * String.prototype.slice counts UTF-16 code units, so "👍🏽".slice(0, 1) is
+ * half of a surrogate pair and "é" written as e plus a combining accent can
+ * lose its accent. These functions count grapheme clusters instead, as
+ * found by Intl.Segmenter:
+ *
+ *   "👨‍👩‍👧 family".slice(0, 3); // "👨‍", a broken emoji
+ *   sliceGraphemes("👨‍👩‍👧 family", 0, 3); // "👨‍👩‍👧 f"
+ *
+ * formatList joins words the way a locale does, through Intl.ListFormat:
+ * "Bob, Sally, and Jerry" in English, "Bob, Sally et Jerry" in French.
+ */
+
+const DEFAULT_LOCALE = "en";
+
+export type TruncateOptions = {
+  /** Appended when the text is cut, and counted in its length. "…" by default. */
+  ellipsis?: string;
+};
+
+export type ListOptions = {
+  locale?: string;
+  /** "conjunction" for "and", "disjunction" for "or", "unit" for neither. */
+  type?: Intl.ListFormatType;
+  style?: Intl.ListFormatStyle;
+};
+
+// Grapheme boundaries do not depend on the locale, so one segmenter will do.
+const segmenter = new Intl.Segmenter(DEFAULT_LOCALE, {
+  granularity: "grapheme",
+});
+
+export function graphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+export function graphemeLength(text: string): number {
+  return graphemes(text).length;
+}
+
+/** Code points that terminals draw two columns wide (East Asian Wide). */
+const WIDE = new RegExp(
+  "^[" +
+    [
+      "\\u1100-\\u115f", // Hangul Jamo
+      "\\u2e80-\\u303e", // CJK radicals and punctuation
+      "\\u3041-\\u33ff", // kana and CJK compatibility
+      "\\u3400-\\u4dbf", // CJK extension A
+      "\\u4e00-\\u9fff", // CJK unified ideographs
+      "\\ua000-\\ua4cf", // Yi
+      "\\uac00-\\ud7a3", // Hangul syllables
+      "\\uf900-\\ufaff", // CJK compatibility ideographs
+      "\\ufe30-\\ufe4f", // CJK compatibility forms
+      "\\uff00-\\uff60", // fullwidth forms
+      "\\uffe0-\\uffe6", // fullwidth signs
+      "\\u{20000}-\\u{3fffd}", // CJK extensions B and later
+    ].join("") +
+    "]",
+  "u"
+);
+
+/** Emoji drawn as pictures: by default, with VS16, or as keycaps. */
+const EMOJI = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\ufe0f|\u20e3/u;
+
+const INVISIBLE = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]*$/u;
+
+function graphemeWidth(grapheme: string): number {
+  if (INVISIBLE.test(grapheme)) {
+    return 0;
+  }
+  return WIDE.test(grapheme) || EMOJI.test(grapheme) ? 2 : 1;
+}
+
+/**
+ * The number of terminal columns text takes up: 2 for each CJK character
+ * and emoji, 0 for control characters, 1 for the rest.
+ */
+export function displayWidth(text: string): number {
+  return graphemes(text).reduce(
+    (width, grapheme) => width + graphemeWidth(grapheme),
+    0
+  );
+}
+
+/**
+ * Like String.prototype.slice, with start and end counted in graphemes.
+ * Negative indices count from the end.
+ */
+export function sliceGraphemes(
+  text: string,
+  start?: number,
+  end?: number
+): string {
+  return graphemes(text).slice(start, end).join("");
+}
+
+/**
+ * Shortens text to at most maxLength graphemes, the ellipsis included.
+ * Text that already fits is returned unchanged.
+ */
+export function truncate(
+  text: string,
+  maxLength: number,
+  options: TruncateOptions = {}
+): string {
+  const { ellipsis = "…" } = options;
+  if (!Number.isInteger(maxLength) || maxLength < 0) {
+    throw new RangeError(
+      `maxLength must be a non-negative integer, got ${maxLength}`
+    );
+  }
+  const parts = graphemes(text);
+  if (parts.length <= maxLength) {
+    return text;
+  }
+  const room = maxLength - graphemeLength(ellipsis);
+  if (room < 0) {
+    throw new RangeError(
+      `The ellipsis "${ellipsis}" is longer than maxLength ${maxLength}`
+    );
+  }
+  return parts.slice(0, room).join("") + ellipsis;
+}
+
+/** Joins items as a list in the locale: "Bob, Sally, and Jerry". */
+export function formatList(
+  items: readonly string[],
+  options: ListOptions = {}
+): string {
+  const {
+    locale = DEFAULT_LOCALE,
+    type = "conjunction",
+    style = "long",
+  } = options;
+  return new Intl.ListFormat(locale, { type, style }).format(items);
+}
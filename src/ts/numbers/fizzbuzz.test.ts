@@ -1,3 +1,5 @@
+import { CLASSIC, divisibleBy, fizzbuzz } from "../../fizzbuzz";
+
 describe("FizzBuzz", () => {
   it("should create number range", () => {
     const maximumNumber = 5;
@@ -56,4 +58,23 @@ describe("FizzBuzz", () => {
       "Buzz",
     ]);
   });
+
+  it("should FizzBuzz with a rule engine", () => {
+    // The same game as above, written as an ordered list of rules and played
+    // lazily over a range instead of an array built up front.
+    const results = [...fizzbuzz({ start: 1, end: 15 }, CLASSIC)];
+    expect(results.slice(-3)).toStrictEqual(["13", "14", "FizzBuzz"]);
+
+    const fizzBuzzBazz = [...CLASSIC, divisibleBy(7, "Bazz")];
+    expect([...fizzbuzz({ start: 20, end: 21 }, fizzBuzzBazz)]).toStrictEqual([
+      "Buzz",
+      "FizzBazz",
+    ]);
+  });
 });
+
+/**
+ * References:
+ * - https://en.wikipedia.org/wiki/Fizz_buzz
+ * - https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/keys
+ */
@@ -138,3 +138,8 @@ describe("TypeScript for JavaScript Programmers", () => {
     // the implementation details.
   });
 });
+
+/**
+ * References:
+ * - https://www.typescriptlang.org/docs/handbook/typescript-in-5-minutes.html
+ */
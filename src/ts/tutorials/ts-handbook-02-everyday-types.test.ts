@@ -93,3 +93,8 @@ describe("TypeScript Handbook - Everyday Types", () => {
     // value can't be null or undefined. Not very good style; eslint hates it.
   });
 });
+
+/**
+ * References:
+ * - https://www.typescriptlang.org/docs/handbook/2/everyday-types.html
+ */
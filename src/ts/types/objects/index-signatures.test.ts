@@ -35,12 +35,14 @@ describe("Index Signatures", () => {
      * If you tried to assign a non-string value (like a number) to a numeric
      * index, the type checker would give an error.
      */
-    // myArray[5] = 5; // TS2322: Type 'number' is not assignable to type 'string'.
+    // @expect-error TS2322: Type 'number' is not assignable to type 'string'.
+    // myArray[5] = 5;
     /**
      * If you tried to assign a value to a string index, it would throw a runtime
      * error complaining of the index expression not being of type 'number'
      */
-    // myArray["yo"] = "YO!"; // TS7015: Element implicitly has an 'any' type because index expression is not of type 'number'.
+    // @expect-error TS7015: Element implicitly has an 'any' type because index expression is not of type 'number'.
+    // myArray["yo"] = "YO!";
   });
 
   it("should force all other properties to match return type of string index signature", () => {
@@ -53,7 +55,8 @@ describe("Index Signatures", () => {
     interface NumberDictionary {
       [index: string]: number;
       length: number; // ok, length is a number
-      // name: string; // TS2411: Property 'name' of type 'string' is not assignable to string index type 'number'.
+      // @expect-error TS2411: Property 'name' of type 'string' is not assignable to string index type 'number'.
+      // name: string;
     }
     /**
      * However, properties of different types are acceptable if the index
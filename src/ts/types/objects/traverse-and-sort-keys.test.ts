@@ -6,32 +6,27 @@
  * set of rules that object iteration follows, but it does not (always) follow the
  * insertion order.
  *
- * As such, the sorting of object keys can be achieved using a recursive function.
+ * As such, the sorting of object keys has to be done explicitly, visiting every
+ * nested object and array in turn.
  *
- * The sortObjectKeys function below demonstrates the process. Highlights:
- * 1. a for...of loop is used to iterate over the object's key-value pairs
- * 2. an object's keys are sorted first, before inspection
- * 3. if the value of a property is an object, the function is called recursively
- * 4. found key/value pairs are added to a new array to preserve the insertion order
- * 5. the function returns an array of key-value pairs, sorted
+ * The sortObjectKeys function in src/canonical-json.ts demonstrates the
+ * process. Highlights:
+ * 1. an object's keys are sorted first, before inspection
+ * 2. if the value of a property is an object or an array, it is visited too,
+ *    from a stack of its own rather than by recursion, so that objects nested
+ *    10,000 levels deep do not overflow the call stack
+ * 3. found key/value pairs are added to a new array to preserve the insertion order
+ * 4. the function returns an array of key-value pairs, sorted
+ *
+ * The same module also writes canonical JSON strings (RFC 8785), whose key
+ * order never depends on how the object was built.
  */
 
-function sortObjectKeys(object: Record<string, any>): Record<string, any> {
-  const sortedArrayOfKeyValuePairs: any[] = [];
-
-  for (const [key, value] of Object.entries(object).sort()) {
-    if (typeof object[key] === "object" && object[key] !== undefined) {
-      sortedArrayOfKeyValuePairs.push({
-        k: key,
-        v: sortObjectKeys(object[key]),
-      });
-      continue;
-    }
-    sortedArrayOfKeyValuePairs.push({ k: key, v: object[key] });
-  }
-
-  return sortedArrayOfKeyValuePairs;
-}
+import {
+  canonicalize,
+  fromOrderedEntries,
+  sortObjectKeys,
+} from "../../../canonical-json";
 
 describe("Traversing Objects and Sorting Keys:", () => {
   it("should sort object keys recursively", () => {
@@ -55,10 +50,31 @@ describe("Traversing Objects and Sorting Keys:", () => {
 
     expect(JSON.stringify(x)).toBe(JSON.stringify(y));
   });
+
+  it("should keep arrays and null out of the key sorting", () => {
+    const actual = sortObjectKeys({ b: [2, 1], a: null });
+
+    expect(actual).toStrictEqual([
+      { k: "a", v: null },
+      { k: "b", v: [2, 1] },
+    ]);
+  });
+
+  it("should decode sorted key-value pairs back into an object", () => {
+    const object = { z: "z", a: "a", j: { c: { x: "x", w: "w" }, b: "b" } };
+
+    const actual = fromOrderedEntries(sortObjectKeys(object));
+
+    expect(actual).toStrictEqual(object);
+    expect(canonicalize(actual)).toBe(
+      '{"a":"a","j":{"b":"b","c":{"w":"w","x":"x"}},"z":"z"}'
+    );
+  });
 });
 
 /**
  * References:
+ * - https://www.rfc-editor.org/rfc/rfc8785
  * - https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/keys
  * - https://stackoverflow.com/questions/5525795/does-javascript-guarantee-object-property-order
  * - https://www.ecma-international.org/wp-content/uploads/ECMA-262_3rd_edition_december_1999.pdf (section 4.3.3)
@@ -0,0 +1,20 @@
+/**
+ * Assertions about types rather than values. Both functions do nothing at
+ * runtime; checkSources and checkFiles read them from the syntax tree instead.
+ *
+ *   expectType<string>(user.name); // the type of user.name is exactly string
+ *   expectError(add("1", 2)); // this expression does not compile
+ *
+ * Outside the harness, expectType still checks that the value is assignable
+ * to the type, so it is safe to use in ordinary tests.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export function expectType<T>(value: T): void {
+  // Checked at compile time.
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export function expectError(value: unknown): void {
+  // Checked at compile time.
+}
@@ -0,0 +1,212 @@
+/**
+ * Compiles TypeScript sources in memory and checks the expectations written
+ * in them against the compiler's diagnostics:
+ *
+ * - "// @expect-error TS2322" expects that exact error on the next line. If
+ *   the next line is commented out, as in the lessons, it is uncommented
+ *   first, so the snippet is compiled in the scope it was written in.
+ * - expectError(expression) expects some error inside the expression.
+ * - expectType<T>(expression) expects the expression's type to be exactly T.
+ *
+ * Any other diagnostic is a failure too, so a snippet that starts to compile
+ * after a TypeScript upgrade, or fails with a different error, is reported.
+ */
+
+import { dirname, resolve } from "path";
+import * as ts from "typescript";
+
+export type Failure = {
+  file: string;
+  /** 1-based, like an editor. */
+  line: number;
+  message: string;
+};
+
+type Expectation = { line: number; code: number; met: boolean };
+
+const ANNOTATION = /^(\s*)\/\/ @expect-error TS(\d+)\b/;
+const COMMENTED_OUT = /^(\s*)\/\/ ?(.*)$/;
+
+/** Reads the compiler options of a tsconfig.json, by default the project's. */
+export function loadCompilerOptions(
+  configPath = resolve(__dirname, "../../tsconfig.json")
+): ts.CompilerOptions {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(ts.flattenDiagnosticMessageText(error.messageText, "\n"));
+  }
+  return ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath))
+    .options;
+}
+
+/**
+ * Uncomments the line after each annotation, keeping every other line and
+ * column where it was so diagnostics point into the original source.
+ */
+function prepare(source: string): {
+  text: string;
+  expectations: Expectation[];
+} {
+  const lines = source.split("\n");
+  const expectations: Expectation[] = [];
+  lines.forEach((line, i) => {
+    const annotation = ANNOTATION.exec(line);
+    if (!annotation || i + 1 >= lines.length) {
+      return;
+    }
+    expectations.push({ line: i + 1, code: Number(annotation[2]), met: false });
+    const commented = COMMENTED_OUT.exec(lines[i + 1]);
+    if (commented) {
+      const [whole, indent, code] = commented;
+      const marker = whole.length - indent.length - code.length;
+      lines[i + 1] = indent + " ".repeat(marker) + code;
+    }
+  });
+  return { text: lines.join("\n"), expectations };
+}
+
+function callsTo(name: string, file: ts.SourceFile): ts.CallExpression[] {
+  const calls: ts.CallExpression[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === name
+    ) {
+      calls.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file);
+  return calls;
+}
+
+/**
+ * Type-checks the given sources together, keyed by file name, and returns
+ * every unmet expectation and unexpected diagnostic. Relative imports are
+ * resolved from each file name, against the files on disk.
+ */
+export function checkSources(
+  sources: Record<string, string>,
+  options: ts.CompilerOptions = loadCompilerOptions()
+): Failure[] {
+  const prepared = new Map(
+    Object.entries(sources).map(([name, source]) => [
+      resolve(name),
+      prepare(source),
+    ])
+  );
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const file = prepared.get(resolve(fileName));
+    return file
+      ? ts.createSourceFile(fileName, file.text, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  };
+  host.fileExists = (fileName) =>
+    prepared.has(resolve(fileName)) || fileExists.call(host, fileName);
+  host.readFile = (fileName) =>
+    prepared.get(resolve(fileName))?.text ?? readFile.call(host, fileName);
+
+  const program = ts.createProgram({
+    rootNames: [...prepared.keys()],
+    options: { ...options, noEmit: true },
+    host,
+  });
+  const checker = program.getTypeChecker();
+  const failures: Failure[] = [];
+
+  for (const [fileName, { expectations }] of prepared) {
+    const file = program.getSourceFile(fileName);
+    if (!file) {
+      continue;
+    }
+    const lineOf = (position: number) =>
+      file.getLineAndCharacterOfPosition(position).line + 1;
+    const fail = (position: number, message: string) =>
+      failures.push({ file: fileName, line: lineOf(position), message });
+
+    const errorRanges = callsTo("expectError", file).map((call) => ({
+      node: call,
+      met: false,
+    }));
+    for (const call of callsTo("expectType", file)) {
+      const [typeArgument] = call.typeArguments ?? [];
+      const [argument] = call.arguments;
+      if (!typeArgument || !argument) {
+        fail(call.getStart(), "expectType needs a type argument and a value");
+        continue;
+      }
+      const flags = ts.TypeFormatFlags.NoTruncation;
+      const expected = checker.typeToString(
+        checker.getTypeFromTypeNode(typeArgument),
+        undefined,
+        flags
+      );
+      const actual = checker.typeToString(
+        checker.getTypeAtLocation(argument),
+        undefined,
+        flags
+      );
+      if (expected !== actual) {
+        fail(
+          argument.getStart(),
+          `Expected type ${expected} but got ${actual}`
+        );
+      }
+    }
+
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(file),
+      ...program.getSemanticDiagnostics(file),
+    ];
+    for (const diagnostic of diagnostics) {
+      const start = diagnostic.start ?? 0;
+      const line = lineOf(start);
+      const expectation = expectations.find(
+        (candidate) =>
+          candidate.line + 1 === line && candidate.code === diagnostic.code
+      );
+      const range = errorRanges.find(
+        ({ node }) => node.getStart() <= start && start < node.getEnd()
+      );
+      if (expectation) {
+        expectation.met = true;
+      } else if (range) {
+        range.met = true;
+      } else {
+        const text = ts.flattenDiagnosticMessageText(
+          diagnostic.messageText,
+          "\n"
+        );
+        fail(start, `Unexpected TS${diagnostic.code}: ${text}`);
+      }
+    }
+
+    for (const expectation of expectations.filter(({ met }) => !met)) {
+      failures.push({
+        file: fileName,
+        line: expectation.line + 1,
+        message: `Expected TS${expectation.code} but it was not reported`,
+      });
+    }
+    for (const { node } of errorRanges.filter(({ met }) => !met)) {
+      fail(node.getStart(), "Expected an error but the expression compiled");
+    }
+  }
+  return failures;
+}
+
+/** Like checkSources, for files on disk. */
+export function checkFiles(
+  fileNames: string[],
+  options?: ts.CompilerOptions
+): Failure[] {
+  return checkSources(
+    Object.fromEntries(
+      fileNames.map((name) => [name, ts.sys.readFile(name) ?? ""])
+    ),
+    options
+  );
+}
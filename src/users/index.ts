@@ -0,0 +1,4 @@
+export * from "./json-file";
+export * from "./memory";
+export * from "./repository";
+export * from "./user";
@@ -0,0 +1,261 @@
+/**
+ * Keeps users in a JSON file, so prototypes get persistence without a
+ * database.
+ *
+ * Writes are atomic: the new contents go to a temporary file next to the
+ * real one, which is then renamed over it, so readers see either the old
+ * file or the new one and never half of each. Writers take a lock file
+ * (created with O_EXCL) first, so two processes, or two calls in one
+ * process, cannot both read the same users and then overwrite each other's
+ * change. A lock left behind by a crashed writer is broken once it is older
+ * than staleLockMs.
+ *
+ * Each lock holds a token unique to the writer that took it. A writer only
+ * removes the lock while it still holds its own token. Of several waiters
+ * that find the same stale lock, only the one that claims its token removes
+ * it, and only after checking the lock still holds that token.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { open, readFile, rename, rm, stat } from "fs/promises";
+import { InMemoryUserRepository, UserSnapshot } from "./memory";
+import { UserRepository, UserRepositoryError } from "./repository";
+import { User, UserAccount } from "./user";
+
+export type JsonFileOptions = {
+  /** How long to wait for another writer, in milliseconds. */
+  lockTimeoutMs?: number;
+  staleLockMs?: number;
+};
+
+export class LockTimeoutError extends UserRepositoryError {
+  readonly lockPath: string;
+
+  constructor(lockPath: string) {
+    super(`Timed out waiting for the lock ${lockPath}`);
+    this.name = "LockTimeoutError";
+    this.lockPath = lockPath;
+  }
+}
+
+const RETRY_MS = 10;
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException).code;
+}
+
+function isUser(value: unknown): value is User {
+  const user = value as User;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof user.name === "string" &&
+    Number.isInteger(user.id)
+  );
+}
+
+function isSnapshot(value: unknown): value is UserSnapshot {
+  const snapshot = value as UserSnapshot;
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !Number.isInteger(snapshot.nextId) ||
+    !Array.isArray(snapshot.users) ||
+    !snapshot.users.every(isUser)
+  ) {
+    return false;
+  }
+  // Ids must be unique and below nextId, or create would hand one out again.
+  const ids = new Set(snapshot.users.map(({ id }) => id));
+  return (
+    ids.size === snapshot.users.length &&
+    snapshot.users.every(({ id }) => id < snapshot.nextId)
+  );
+}
+
+function uniqueSuffix(): string {
+  return randomBytes(6).toString("hex");
+}
+
+async function readToken(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export class JsonFileUserRepository implements UserRepository {
+  readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(path: string, options: JsonFileOptions = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+  }
+
+  create(name: string): Promise<UserAccount> {
+    return this.write((users) => users.create(name));
+  }
+
+  async get(id: number): Promise<UserAccount> {
+    return (await this.read()).get(id);
+  }
+
+  async findByNamePrefix(prefix: string): Promise<UserAccount[]> {
+    return (await this.read()).findByNamePrefix(prefix);
+  }
+
+  update(id: number, changes: { name: string }): Promise<UserAccount> {
+    return this.write((users) => users.update(id, changes));
+  }
+
+  delete(id: number): Promise<void> {
+    return this.write((users) => users.delete(id));
+  }
+
+  private async read(): Promise<InMemoryUserRepository> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if (errorCode(error) === "ENOENT") {
+        return new InMemoryUserRepository();
+      }
+      throw error;
+    }
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(text);
+    } catch {
+      throw new UserRepositoryError(`${this.path} is not valid JSON`);
+    }
+    if (!isSnapshot(snapshot)) {
+      throw new UserRepositoryError(`${this.path} does not hold users`);
+    }
+    return new InMemoryUserRepository(snapshot);
+  }
+
+  /**
+   * Reads the users, applies the change, and writes them back, all under the
+   * lock. Nothing is written if the change throws.
+   */
+  private async write<T>(
+    change: (users: InMemoryUserRepository) => Promise<T>
+  ): Promise<T> {
+    const token = await this.lock();
+    try {
+      const users = await this.read();
+      const result = await change(users);
+      await this.replace(JSON.stringify(users.snapshot(), null, 2) + "\n");
+      return result;
+    } finally {
+      await this.unlock(token);
+    }
+  }
+
+  private async replace(contents: string) {
+    const temporary = `${this.path}.${uniqueSuffix()}.tmp`;
+    const file = await open(temporary, "w");
+    try {
+      await file.writeFile(contents, "utf8");
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    try {
+      await rename(temporary, this.path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  /** Takes the lock and resolves to the token it was taken with. */
+  private async lock(): Promise<string> {
+    const token = `${process.pid}-${uniqueSuffix()}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        const file = await open(this.lockPath, "wx");
+        try {
+          await file.writeFile(token);
+        } finally {
+          await file.close();
+        }
+        return token;
+      } catch (error) {
+        if (errorCode(error) !== "EEXIST") {
+          throw error;
+        }
+      }
+      if (await this.breakStaleLock()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_MS));
+    }
+  }
+
+  /** Removes the lock, unless it was broken and taken by another writer. */
+  private async unlock(token: string) {
+    if ((await readToken(this.lockPath)) === token) {
+      await rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Removes a stale lock. A waiter first claims the stale token by creating a
+   * claim file with O_EXCL, so only one of several waiters that read the same
+   * token goes on. It then removes the lock only if it still holds that
+   * token, which leaves a fresh lock taken in the meantime alone.
+   */
+  private async breakStaleLock(): Promise<boolean> {
+    // The token is read before the age, so a lock replaced in between is
+    // judged by the newer file and looks fresh.
+    const stale = await readToken(this.lockPath);
+    let mtimeMs: number;
+    try {
+      ({ mtimeMs } = await stat(this.lockPath));
+    } catch (error) {
+      if (errorCode(error) === "ENOENT") {
+        // Released since our open: try again.
+        return true;
+      }
+      throw error;
+    }
+    if (stale === undefined) {
+      return true;
+    }
+    if (Date.now() - mtimeMs < this.staleLockMs) {
+      return false;
+    }
+    const digest = createHash("sha256").update(stale).digest("hex");
+    const claim = `${this.lockPath}.${digest.slice(0, 16)}.break`;
+    try {
+      await (await open(claim, "wx")).close();
+    } catch (error) {
+      if (errorCode(error) === "EEXIST") {
+        return false;
+      }
+      throw error;
+    }
+    try {
+      if ((await readToken(this.lockPath)) === stale) {
+        await rm(this.lockPath, { force: true });
+      }
+    } finally {
+      await rm(claim, { force: true });
+    }
+    return true;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Keeps users in a Map. The JSON file repository also uses it to apply each
+ * change to the users it has just read.
+ */
+
+import {
+  DuplicateUserNameError,
+  InvalidUserNameError,
+  UserNotFoundError,
+  UserRepository,
+  UserRepositoryError,
+} from "./repository";
+import { User, UserAccount } from "./user";
+
+/** Everything a repository stores, in a form that survives JSON. */
+export type UserSnapshot = {
+  nextId: number;
+  users: User[];
+};
+
+function checkName(name: string) {
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new InvalidUserNameError(name);
+  }
+}
+
+export class InMemoryUserRepository implements UserRepository {
+  private readonly users = new Map<number, User>();
+  private nextId: number;
+
+  constructor(snapshot: UserSnapshot = { nextId: 1, users: [] }) {
+    for (const { name, id } of snapshot.users) {
+      this.users.set(id, { name, id });
+    }
+    this.nextId = snapshot.nextId;
+  }
+
+  snapshot(): UserSnapshot {
+    return {
+      nextId: this.nextId,
+      users: [...this.users.values()].map(({ name, id }) => ({ name, id })),
+    };
+  }
+
+  async create(name: string): Promise<UserAccount> {
+    checkName(name);
+    this.checkUnique(name);
+    if (this.users.has(this.nextId)) {
+      throw new UserRepositoryError(`The id ${this.nextId} is already taken`);
+    }
+    const user = { name, id: this.nextId++ };
+    this.users.set(user.id, user);
+    return new UserAccount(user.name, user.id);
+  }
+
+  async get(id: number): Promise<UserAccount> {
+    const user = this.find(id);
+    return new UserAccount(user.name, user.id);
+  }
+
+  async findByNamePrefix(prefix: string): Promise<UserAccount[]> {
+    return [...this.users.values()]
+      .filter(({ name }) => name.startsWith(prefix))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .map(({ name, id }) => new UserAccount(name, id));
+  }
+
+  async update(id: number, changes: { name: string }): Promise<UserAccount> {
+    const user = this.find(id);
+    checkName(changes.name);
+    if (changes.name !== user.name) {
+      this.checkUnique(changes.name);
+    }
+    user.name = changes.name;
+    return new UserAccount(user.name, user.id);
+  }
+
+  async delete(id: number): Promise<void> {
+    this.find(id);
+    this.users.delete(id);
+  }
+
+  private find(id: number): User {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new UserNotFoundError(id);
+    }
+    return user;
+  }
+
+  private checkUnique(name: string) {
+    for (const user of this.users.values()) {
+      if (user.name === name) {
+        throw new DuplicateUserNameError(name);
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * A UserRepository stores users and hands out their ids. Names are unique,
+ * and ids are never reused, even after a user is deleted.
+ *
+ * Every method returns fresh UserAccount objects: changing one does not
+ * change what is stored until it is passed to update.
+ */
+
+import { UserAccount } from "./user";
+
+export interface UserRepository {
+  /** Stores a new user under the next free id. */
+  create(name: string): Promise<UserAccount>;
+  get(id: number): Promise<UserAccount>;
+  /** Users whose name starts with the prefix, ordered by name. */
+  findByNamePrefix(prefix: string): Promise<UserAccount[]>;
+  update(id: number, changes: { name: string }): Promise<UserAccount>;
+  delete(id: number): Promise<void>;
+}
+
+export class UserRepositoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserRepositoryError";
+  }
+}
+
+export class UserNotFoundError extends UserRepositoryError {
+  readonly id: number;
+
+  constructor(id: number) {
+    super(`No user with id ${id}`);
+    this.name = "UserNotFoundError";
+    this.id = id;
+  }
+}
+
+export class DuplicateUserNameError extends UserRepositoryError {
+  readonly userName: string;
+
+  constructor(name: string) {
+    super(`A user named "${name}" already exists`);
+    this.name = "DuplicateUserNameError";
+    this.userName = name;
+  }
+}
+
+export class InvalidUserNameError extends UserRepositoryError {
+  constructor(name: string) {
+    super(`Invalid user name ${JSON.stringify(name)}`);
+    this.name = "InvalidUserNameError";
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * The User shape and UserAccount class from the lessons, now shared by the
+ * repositories.
+ */
+
+export interface User {
+  name: string;
+  id: number;
+}
+
+export class UserAccount implements User {
+  name: string;
+  id: number;
+
+  constructor(name: string, id: number) {
+    this.name = name;
+    this.id = id;
+  }
+}